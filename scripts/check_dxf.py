@@ -0,0 +1,52 @@
+"""Load DXF exports the way strict readers such as AutoCAD do, and fail on
+anything they would reject.
+
+    python3 scripts/check_dxf.py FILE.dxf [FILE.dxf ...]
+    node scripts/export-sample-dxf.mjs | python3 scripts/check_dxf.py -
+
+Needs ezdxf (pip install ezdxf). Files are read without ezdxf's recover mode,
+so structural errors raise instead of being repaired, and then audited.
+"""
+
+import sys
+
+import ezdxf
+from ezdxf.lldxf.const import DXFError
+
+
+def check(name, load):
+    try:
+        doc = load()
+    except (DXFError, UnicodeDecodeError) as error:
+        print(f"{name}: cannot load: {error}")
+        return False
+    ok = True
+    if doc.dxfversion != "AC1015":
+        print(f"{name}: version {doc.dxfversion}, expected AC1015 (R2000)")
+        ok = False
+    auditor = doc.audit()
+    for error in auditor.errors:
+        print(f"{name}: {error.message}")
+        ok = False
+    for fix in auditor.fixes:
+        print(f"{name}: fixed by the audit: {fix.message}")
+    if ok:
+        print(f"{name}: ok, {len(doc.modelspace())} entities")
+    return ok
+
+
+def main(paths):
+    if not paths:
+        print(__doc__.strip())
+        return 2
+    results = [
+        check("<stdin>", lambda: ezdxf.read(sys.stdin))
+        if path == "-"
+        else check(path, lambda path=path: ezdxf.readfile(path))
+        for path in paths
+    ]
+    return 0 if all(results) else 1
+
+
+if __name__ == "__main__":
+    sys.exit(main(sys.argv[1:]))
@@ -0,0 +1,76 @@
+// Print the DXF export of a small scene that uses every entity the exporter
+// writes, for checking with a strict reader:
+//
+//   node scripts/export-sample-dxf.mjs | python3 scripts/check_dxf.py -
+import { createServer } from "vite";
+
+const server = await createServer({
+  configFile: false,
+  appType: "custom",
+  logLevel: "error",
+  server: { middlewareMode: true },
+});
+
+try {
+  const { generateDXF } = await server.ssrLoadModule(
+    "/src/lib/logic/dxfExport.ts"
+  );
+  const { DEFAULT_EXPORT_LAYERS } = await server.ssrLoadModule(
+    "/src/lib/logic/exportLayers.ts"
+  );
+  const { DEFAULT_MATERIAL } = await server.ssrLoadModule(
+    "/src/lib/logic/materials.ts"
+  );
+
+  const square = (id, left, top, size) => ({
+    id,
+    points: [
+      { x: left, y: top },
+      { x: left + size, y: top },
+      { x: left + size, y: top + size },
+      { x: left, y: top + size },
+    ],
+  });
+  const pieces = [square("a", 50, 50, 200), square("b", 50, 300, 200)];
+  const outline = { ...square("mask", 25, 25, 500), holes: [] };
+  const connector = {
+    id: "c",
+    start: { x: 150, y: 230 },
+    end: { x: 150, y: 320 },
+    mode: "compression",
+  };
+  const label = {
+    id: "l",
+    start: { x: 80, y: 400 },
+    end: { x: 220, y: 400 },
+    text: "Sample",
+  };
+  const hanger = { point: { x: 150, y: 70 }, ribbonLength: 50 };
+  const qr = { point: { x: 150, y: 150 }, size: 20, text: "tree-dangler" };
+  const layers = {
+    ...DEFAULT_EXPORT_LAYERS,
+    outline: { ...DEFAULT_EXPORT_LAYERS.outline, enabled: true },
+    registration: { ...DEFAULT_EXPORT_LAYERS.registration, enabled: true },
+  };
+
+  // Without fonts labels are TEXT entities rather than outlines.
+  process.stdout.write(
+    generateDXF(
+      pieces,
+      [connector],
+      [label],
+      550,
+      550,
+      1.8,
+      DEFAULT_MATERIAL,
+      hanger,
+      qr,
+      layers,
+      [outline],
+      {},
+      0.15
+    )
+  );
+} finally {
+  await server.close();
+}
@@ -9,14 +9,23 @@ import {
   deserializeScene,
   encodeSceneToHash,
   serializeScene,
+  shareLinkForHash,
+  type NormalizedScene,
 } from "../lib/logic/sceneSerialization";
+import { encodeQrCode, qrCodeSvg } from "../lib/logic/qrCode";
+import {
+  parseSvgOutlines,
+  placeImportedOutlines,
+} from "../lib/logic/svgImport";
+import { mmToPx } from "../lib/logic/units";
 
-type PresetScene = ReturnType<typeof deserializeScene>;
+type PresetScene = NormalizedScene | null;
 
 type PresetEntry = {
   label: string;
   file: string;
   scene: PresetScene | null;
+  warnings?: string[];
   previewDataUri?: string;
   error?: string;
 };
@@ -40,8 +49,9 @@ const formatLabelFromFile = (file: string) => {
     .join(" ");
 };
 
-const buildMaskPreviewDataUri = (points: Point[] | undefined) => {
-  if (!points?.length) return undefined;
+const buildMaskPreviewDataUri = (masks: Point[][] | undefined) => {
+  const points = masks?.flat();
+  if (!masks || !points?.length) return undefined;
   const xs = points.map((p) => p.x);
   const ys = points.map((p) => p.y);
   const minX = Math.min(...xs);
@@ -53,21 +63,29 @@ const buildMaskPreviewDataUri = (points: Point[] | undefined) => {
   const scale = 16 / Math.max(width, height);
   const offsetX = (16 - width * scale) / 2;
   const offsetY = (16 - height * scale) / 2;
-  const normalizedPoints = points.map((p) => ({
-    x: (p.x - minX) * scale + offsetX,
-    y: (p.y - minY) * scale + offsetY,
-  }));
-  const pointsAttr = normalizedPoints
-    .map((p) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`)
-    .join(" ");
-  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16"><rect width="16" height="16" fill="transparent"/><polygon points="${pointsAttr}" fill="#fff" /></svg>`;
+  const polygons = masks
+    .map((maskPoints) => {
+      const pointsAttr = maskPoints
+        .map(
+          (p) =>
+            `${((p.x - minX) * scale + offsetX).toFixed(2)},${(
+              (p.y - minY) * scale +
+              offsetY
+            ).toFixed(2)}`
+        )
+        .join(" ");
+      return `<polygon points="${pointsAttr}" fill="#fff" />`;
+    })
+    .join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16"><rect width="16" height="16" fill="transparent"/>${polygons}</svg>`;
   return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
 };
 
 function EditorCard() {
-  const width = 600;
-  const height = 800;
-  const { state, dispatch } = useTreeDanglerState();
+  const { state, dispatch, qrTooLong } = useTreeDanglerState();
+  const width = mmToPx(state.canvasWidth);
+  const height = mmToPx(state.canvasHeight);
+  const aspectRatio = `${width} / ${height}`;
   const [resetToken, setResetToken] = useState(0);
   const [previewMode, setPreviewMode] = useState<"simulation" | "svg">(
     "simulation"
@@ -78,6 +96,7 @@ function EditorCard() {
   const [presetOptions, setPresetOptions] = useState<PresetEntry[]>([]);
   const [presetsLoading, setPresetsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const svgInputRef = useRef<HTMLInputElement | null>(null);
   const presetMenuRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -132,10 +151,7 @@ function EditorCard() {
   const handleCopyLink = useCallback(async () => {
     if (typeof window === "undefined") return;
     try {
-      const hash = await encodeSceneToHash(state);
-      const { origin, pathname, search } = window.location;
-      const base = `${origin}${pathname}${search}`;
-      const url = `${base}#${hash}`;
+      const url = shareLinkForHash(await encodeSceneToHash(state));
       const clipboard = navigator.clipboard;
       if (clipboard?.writeText) {
         await clipboard.writeText(url);
@@ -155,15 +171,48 @@ function EditorCard() {
     }
   }, [state]);
 
+  const handleDownloadQr = useCallback(async () => {
+    if (typeof window === "undefined") return;
+    try {
+      // Ids are left out to keep the code small; see the engraved QR code.
+      const url = shareLinkForHash(
+        await encodeSceneToHash(state, { ids: false })
+      );
+      const modules = encodeQrCode(url);
+      if (!modules) {
+        console.error("Scene link is too long for a QR code");
+        return;
+      }
+      const handle = await (window as any).showSaveFilePicker({
+        suggestedName: "tree-dangler-qr.svg",
+        types: [
+          {
+            description: "SVG Image",
+            accept: { "image/svg+xml": [".svg"] },
+          },
+        ],
+      });
+      const writable = await handle.createWritable();
+      await writable.write(
+        new Blob([qrCodeSvg(modules)], { type: "image/svg+xml" })
+      );
+      await writable.close();
+    } catch (err) {
+      // user cancelled — safe to ignore
+      console.log(err);
+    }
+  }, [state]);
+
   const applySerializedScene = useCallback(
-    (scene: ReturnType<typeof deserializeScene>) => {
+    (scene: PresetScene, warnings: string[] = []) => {
       if (!scene) return;
       if (typeof window !== "undefined") {
         window.dispatchEvent(new Event(EXTERNAL_UNDO_EVENT));
       }
-      dispatch({ type: "SET_MASK", payload: scene.mask });
+      dispatch({ type: "SET_MASKS", payload: scene.masks });
       dispatch({ type: "SET_SEGMENTS", payload: scene.segments });
       dispatch({ type: "SET_CONNECTORS", payload: scene.connectors });
+      dispatch({ type: "SET_HANGER", payload: scene.hanger });
       dispatch({
         type: "SET_DISTANCE_CONFIG",
         payload: {
@@ -171,16 +220,24 @@ function EditorCard() {
           round: scene.noise.round,
           noiseAmplitude: scene.noise.noiseAmplitude,
           noiseSeed: scene.noise.noiseSeed,
+          pipeline: scene.noise.pipeline,
         },
       });
-      dispatch({
-        type: "SET_CONNECTOR_LENGTH",
-        payload: scene.noise.connectorLength,
-      });
+      dispatch({ type: "SET_MATERIAL", payload: scene.material });
       dispatch({
         type: "SET_HOLE_DIAMETER",
         payload: scene.noise.holeDiameter,
       });
+      dispatch({ type: "SET_KERF", payload: scene.noise.kerf });
+      dispatch({
+        type: "SET_CANVAS",
+        payload: {
+          canvasWidth: scene.canvas.width,
+          canvasHeight: scene.canvas.height,
+          resolution: scene.canvas.resolution,
+        },
+      });
+      dispatch({ type: "SET_LOAD_WARNINGS", payload: warnings });
     },
     [dispatch]
   );
@@ -199,8 +256,10 @@ function EditorCard() {
               throw new Error(`HTTP ${resp.status}`);
             }
             const data = await resp.json();
-            const scene = deserializeScene(data);
-            const previewDataUri = buildMaskPreviewDataUri(scene?.mask.points);
+            const { scene, warnings } = deserializeScene(data);
+            const previewDataUri = buildMaskPreviewDataUri(
+              scene?.masks.map((mask) => mask.points)
+            );
             return {
               label:
                 entry.label && entry.label.trim().length
@@ -208,6 +267,7 @@ function EditorCard() {
                   : formatLabelFromFile(entry.file),
               file: entry.file,
               scene,
+              warnings,
               previewDataUri,
             };
           } catch (err) {
@@ -243,10 +303,14 @@ function EditorCard() {
   }, []);
 
   const loadPreset = useCallback(
-    async (preset: { file: string; scene?: PresetScene }) => {
+    async (preset: {
+      file: string;
+      scene?: PresetScene;
+      warnings?: string[];
+    }) => {
       try {
         if (preset.scene) {
-          applySerializedScene(preset.scene);
+          applySerializedScene(preset.scene, preset.warnings);
           return;
         }
         const resp = await fetch(preset.file);
@@ -256,11 +320,11 @@ function EditorCard() {
           );
         }
         const data = await resp.json();
-        const scene = deserializeScene(data);
+        const { scene, warnings } = deserializeScene(data);
         if (scene) {
-          applySerializedScene(scene);
+          applySerializedScene(scene, warnings);
         } else {
-          console.error("Invalid preset file", preset.file);
+          console.error("Invalid preset file", preset.file, warnings);
         }
       } catch (err) {
         console.error("Preset load error", err);
@@ -292,6 +356,26 @@ function EditorCard() {
     return;
   }, [state.svgString]);
 
+  const handleDownloadDxf = useCallback(async () => {
+    if (!state.dxfString) return;
+
+    const handle = await (window as any).showSaveFilePicker({
+      suggestedName: "tree-dangler.dxf",
+      types: [
+        {
+          description: "DXF Drawing",
+          accept: { "application/dxf": [".dxf"] },
+        },
+      ],
+    });
+
+    const writable = await handle.createWritable();
+    await writable.write(
+      new Blob([state.dxfString], { type: "application/dxf" })
+    );
+    await writable.close();
+  }, [state.dxfString]);
+
   const handleFileChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -300,11 +384,11 @@ function EditorCard() {
       reader.onload = () => {
         try {
           const data = JSON.parse(reader.result as string);
-          const scene = deserializeScene(data);
+          const { scene, warnings } = deserializeScene(data);
           if (scene) {
-            applySerializedScene(scene);
+            applySerializedScene(scene, warnings);
           } else {
-            console.error("Invalid scene file");
+            console.error("Invalid scene file", warnings);
           }
         } catch (err) {
           console.error("Failed to load scene", err);
@@ -316,6 +400,57 @@ function EditorCard() {
     [applySerializedScene]
   );
 
+  const handleSvgFileChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          const outlines = parseSvgOutlines(reader.result as string);
+          if (!outlines.length) {
+            console.error("No closed shapes found in", file.name);
+            return;
+          }
+          const { masks, canvasWidth, canvasHeight } = placeImportedOutlines(
+            outlines,
+            state.masks,
+            {
+              canvasWidth: state.canvasWidth,
+              canvasHeight: state.canvasHeight,
+            },
+            "replace"
+          );
+          window.dispatchEvent(new Event(EXTERNAL_UNDO_EVENT));
+          dispatch({
+            type: "SET_CANVAS",
+            payload: {
+              canvasWidth,
+              canvasHeight,
+              resolution: state.resolution,
+            },
+          });
+          dispatch({ type: "SET_MASKS", payload: masks });
+          dispatch({ type: "SET_SEGMENTS", payload: [] });
+          dispatch({ type: "SET_CONNECTORS", payload: [] });
+          dispatch({ type: "SET_HANGER", payload: null });
+          dispatch({ type: "SET_LOAD_WARNINGS", payload: [] });
+        } catch (err) {
+          console.error("Failed to import SVG", err);
+        }
+      };
+      reader.readAsText(file);
+      event.target.value = "";
+    },
+    [
+      dispatch,
+      state.canvasWidth,
+      state.canvasHeight,
+      state.masks,
+      state.resolution,
+    ]
+  );
+
   useEffect(() => {
     const handlePointerDown = (event: PointerEvent) => {
       if (!presetMenuOpen) return;
@@ -340,8 +475,10 @@ function EditorCard() {
               Tree Dangler
             </p>
             <div className="hidden text-sm text-[var(--ink-muted)] sm:block">
-              {state.mask.points.length} mask points · {state.segments.length}{" "}
-              segments · {state.connectors.length} connectors
+              {state.masks.length} outlines ·{" "}
+              {state.masks.reduce((sum, mask) => sum + mask.points.length, 0)}{" "}
+              mask points · {state.segments.length} segments ·{" "}
+              {state.connectors.length} connectors
             </div>
           </div>
           <div className="flex flex-wrap gap-2 sm:ml-auto sm:justify-end">
@@ -411,6 +548,19 @@ function EditorCard() {
             >
               Copy Link
             </button>
+            <button
+              type="button"
+              onClick={handleDownloadQr}
+              disabled={qrTooLong}
+              title={
+                qrTooLong
+                  ? "The share link is too long for a QR code"
+                  : "Download the share link as a QR code"
+              }
+              className="hidden rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-cyan-50 shadow-sm shadow-cyan-500/10 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40 sm:inline-flex"
+            >
+              QR Code
+            </button>
             <button
               type="button"
               onClick={handleSave}
@@ -488,6 +638,17 @@ function EditorCard() {
                   >
                     From File…
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPresetMenuOpen(false);
+                      svgInputRef.current?.click();
+                    }}
+                    className="w-full rounded-xl px-3 py-2 text-left text-[12px] font-semibold text-cyan-50 transition hover:bg-cyan-500/10"
+                    title="Replace the outlines with the shapes in an SVG file"
+                  >
+                    SVG Outline…
+                  </button>
                 </div>
               ) : null}
             </div>
@@ -498,6 +659,13 @@ function EditorCard() {
               className="hidden"
               onChange={handleFileChange}
             />
+            <input
+              ref={svgInputRef}
+              type="file"
+              accept="image/svg+xml,.svg"
+              className="hidden"
+              onChange={handleSvgFileChange}
+            />
             <button
               type="button"
               onClick={handleDownloadSvg}
@@ -506,8 +674,42 @@ function EditorCard() {
             >
               Export SVG
             </button>
+            <button
+              type="button"
+              onClick={handleDownloadDxf}
+              className="hidden rounded-full border border-cyan-300/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/80 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-50 sm:inline-flex"
+              disabled={!state.dxfString}
+            >
+              Export DXF
+            </button>
           </div>
         </div>
+        {state.loadWarnings.length ? (
+          <div className="mt-4 rounded-2xl border border-rose-300/40 bg-[rgba(40,8,20,0.85)] px-4 py-3 text-xs text-rose-100">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-semibold uppercase tracking-wide">
+                Scene loaded with changes
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  dispatch({ type: "SET_LOAD_WARNINGS", payload: [] })
+                }
+                className="rounded-full border border-rose-300/40 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide transition hover:bg-rose-500/10"
+              >
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-2 space-y-1">
+              {state.loadWarnings.map((warning, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <span className="mt-[5px] h-1.5 w-1.5 shrink-0 rounded-full bg-rose-400" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
         <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-2">
           {!isMobile ? (
             <div className="flex flex-col gap-4">
@@ -515,7 +717,8 @@ function EditorCard() {
                 <EditorPane
                   width={width}
                   height={height}
-                  className="rounded-2xl border border-cyan-300/25 bg-[rgba(7,24,54,0.8)] shadow-2xl shadow-cyan-500/10 w-full max-w-[600px] aspect-[3/4]"
+                  className="rounded-2xl border border-cyan-300/25 bg-[rgba(7,24,54,0.8)] shadow-2xl shadow-cyan-500/10 w-full max-w-[600px]"
+                  style={{ aspectRatio }}
                 />
               </div>
             </div>
@@ -558,10 +761,14 @@ function EditorCard() {
                     height={height}
                     resetToken={resetToken}
                     onResetRequest={handleReset}
-                    className="rounded-2xl border border-cyan-300/25 bg-[rgba(7,24,54,0.8)] shadow-2xl shadow-cyan-500/10 w-full aspect-[3/4]"
+                    className="rounded-2xl border border-cyan-300/25 bg-[rgba(7,24,54,0.8)] shadow-2xl shadow-cyan-500/10 w-full"
+                    style={{ aspectRatio }}
                   />
                 ) : (
-                  <div className="rounded-2xl border border-cyan-300/25 w-full aspect-[3/4] bg-[rgba(4,12,28,0.9)] shadow-2xl shadow-cyan-500/10">
+                  <div
+                    className="rounded-2xl border border-cyan-300/25 w-full bg-[rgba(4,12,28,0.9)] shadow-2xl shadow-cyan-500/10"
+                    style={{ aspectRatio }}
+                  >
                     <SvgExportPane
                       className="h-full w-full overflow-auto p-0"
                       showDownload={false}
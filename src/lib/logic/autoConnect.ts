@@ -0,0 +1,520 @@
+import Matter from "matter-js";
+
+import type { Hanger, LineSegment, Material, Point, Polygon } from "../types";
+import { hangerHoles } from "./hanger";
+import { isPointInsideMask } from "./segments";
+import { createSimulationWorld } from "./simulation";
+import { mmToPx } from "./units";
+
+export interface AutoConnectOptions {
+  connectorLength: number;
+  holeDiameter: number;
+  material: Material;
+  width: number;
+  height: number;
+  // Number of candidate layouts to simulate.
+  candidates?: number;
+  // Simulation steps per candidate.
+  steps?: number;
+  seed?: number;
+  // The scene's ribbon hanger, if any; the ornament it is threaded through
+  // needs no anchor connector then.
+  hanger?: Hanger | null;
+}
+
+export interface AutoConnectResult {
+  connectors: LineSegment[];
+  score: number;
+  // Outlines with no room for an anchor at their top; their pieces keep the
+  // connectors they had.
+  unanchoredOutlines: number;
+}
+
+interface Link {
+  a: number;
+  b: number;
+  gap: number;
+  // One or two connectors spanning the shared border.
+  connectors: LineSegment[];
+}
+
+const DEFAULT_CANDIDATES = 8;
+const DEFAULT_STEPS = 240;
+const STEP_MS = 1000 / 60;
+// Far fewer than the live preview uses; candidates still rank the same and
+// scoring a layout stays well under a second.
+const SCORING_CONSTRAINT_ITERATIONS = 100;
+// Every extra ring is one more to assemble, so break ties towards fewer.
+const CONNECTOR_COST = 0.005;
+// Share of the non-spanning links added back for rigidity, per round of
+// candidates.
+const EXTRA_LINK_SHARES = [0.5, 0.25, 0];
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function closestPointOnSegment(point: Point, start: Point, end: Point): Point {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (!lengthSq) return start;
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq
+    )
+  );
+  return { x: start.x + t * dx, y: start.y + t * dy };
+}
+
+function closestPointOnRing(point: Point, ring: Point[]) {
+  let best = ring[0];
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < ring.length; i += 1) {
+    const candidate = closestPointOnSegment(
+      point,
+      ring[i],
+      ring[(i + 1) % ring.length]
+    );
+    const d = distance(point, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return { point: best, distance: bestDistance };
+}
+
+function boundsOf(points: Point[]) {
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  points.forEach((p) => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  });
+  return { minX, minY, maxX, maxY };
+}
+
+function boundaryClearance(point: Point, polygon: Polygon) {
+  return [polygon.points, ...(polygon.holes ?? [])].reduce(
+    (min, ring) =>
+      ring.length >= 2
+        ? Math.min(min, closestPointOnRing(point, ring).distance)
+        : min,
+    Number.POSITIVE_INFINITY
+  );
+}
+
+function connectorAcross(
+  mid: Point,
+  dir: Point,
+  lengthPx: number,
+  piece: Polygon
+): LineSegment {
+  const maskId = piece.meta?.maskId;
+  return {
+    id: crypto.randomUUID(),
+    start: {
+      x: mid.x - (dir.x * lengthPx) / 2,
+      y: mid.y - (dir.y * lengthPx) / 2,
+    },
+    end: {
+      x: mid.x + (dir.x * lengthPx) / 2,
+      y: mid.y + (dir.y * lengthPx) / 2,
+    },
+    mode: "tension",
+    ...(typeof maskId === "string" ? { maskId } : {}),
+  };
+}
+
+// Find where two pieces face each other across a gap narrower than half a
+// connector, and place one connector in the middle of that border (two, near
+// its ends, when the border is long enough to keep the pieces from pivoting).
+// Connectors run along the average gap direction so both holes sit well
+// inside their pieces.
+function linkBetween(
+  pieces: Polygon[],
+  a: number,
+  b: number,
+  lengthPx: number,
+  holeRadius: number
+): Link | null {
+  const pieceA = pieces[a];
+  const pieceB = pieces[b];
+  const maxGap = lengthPx / 2;
+  const boundsA = boundsOf(pieceA.points);
+  const boundsB = boundsOf(pieceB.points);
+  if (
+    boundsA.minX - maxGap > boundsB.maxX ||
+    boundsB.minX - maxGap > boundsA.maxX ||
+    boundsA.minY - maxGap > boundsB.maxY ||
+    boundsB.minY - maxGap > boundsA.maxY
+  ) {
+    return null;
+  }
+
+  const near = pieceA.points
+    .map((point) => ({
+      from: point,
+      ...closestPointOnRing(point, pieceB.points),
+    }))
+    .filter((entry) => entry.distance > 0 && entry.distance <= maxGap);
+  if (!near.length) return null;
+
+  // Order the facing vertices along the border.
+  const mean = near.reduce(
+    (acc, entry) => ({
+      x: acc.x + (entry.point.x - entry.from.x) / near.length,
+      y: acc.y + (entry.point.y - entry.from.y) / near.length,
+    }),
+    { x: 0, y: 0 }
+  );
+  const meanLength = Math.hypot(mean.x, mean.y) || 1;
+  const dir = { x: mean.x / meanLength, y: mean.y / meanLength };
+  const along = { x: -dir.y, y: dir.x };
+  near.sort(
+    (p, q) =>
+      p.from.x * along.x +
+      p.from.y * along.y -
+      (q.from.x * along.x + q.from.y * along.y)
+  );
+  const borderLength = distance(near[0].from, near[near.length - 1].from);
+  const minClearance = holeRadius * 1.5;
+  const connectorAt = (fraction: number) => {
+    const entry = near[Math.round(fraction * (near.length - 1))];
+    const mid = {
+      x: (entry.from.x + entry.point.x) / 2,
+      y: (entry.from.y + entry.point.y) / 2,
+    };
+    const connector = connectorAcross(mid, dir, lengthPx, pieceA);
+    return isPointInsideMask(connector.start, pieceA) &&
+      isPointInsideMask(connector.end, pieceB) &&
+      boundaryClearance(connector.start, pieceA) >= minClearance &&
+      boundaryClearance(connector.end, pieceB) >= minClearance
+      ? connector
+      : null;
+  };
+
+  const placements =
+    borderLength >= lengthPx * 1.2
+      ? [
+          [0.2, 0.8],
+          [0.3, 0.7],
+        ]
+      : [];
+  placements.push([0.5], [0.4], [0.6], [0.3], [0.7]);
+  let connectors: LineSegment[] = [];
+  for (const fractions of placements) {
+    const placed = fractions.map(connectorAt);
+    if (placed.every((connector) => connector)) {
+      connectors = placed as LineSegment[];
+      break;
+    }
+  }
+  if (!connectors.length) return null;
+
+  return {
+    a,
+    b,
+    gap: Math.min(...near.map((entry) => entry.distance)),
+    connectors,
+  };
+}
+
+function createHanger(pieces: Polygon[], lengthPx: number): LineSegment | null {
+  let top: { piece: Polygon; point: Point } | null = null;
+  for (const piece of pieces) {
+    for (const point of piece.points) {
+      if (!top || point.y < top.point.y) top = { piece, point };
+    }
+  }
+  if (!top) return null;
+  const { piece, point } = top;
+  const inside = { x: point.x, y: point.y + lengthPx * 0.3 };
+  if (!isPointInsideMask(inside, piece)) return null;
+  const maskId = piece.meta?.maskId;
+  return {
+    id: crypto.randomUUID(),
+    start: inside,
+    end: { x: inside.x, y: inside.y - lengthPx },
+    mode: "tension",
+    anchor: true,
+    ...(typeof maskId === "string" ? { maskId } : {}),
+  };
+}
+
+// Each outline is an ornament of its own, hung separately; keyed by mask id.
+function groupByOutline(pieces: Polygon[]) {
+  const groups = new Map<unknown, Polygon[]>();
+  pieces.forEach((piece) => {
+    const key = piece.meta?.maskId;
+    groups.set(key, [...(groups.get(key) ?? []), piece]);
+  });
+  return groups;
+}
+
+function createRandom(seed: number) {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+// Kruskal over the candidate links; `weight` decides which links win.
+function spanningLinks(
+  count: number,
+  links: Link[],
+  weight: (link: Link) => number
+) {
+  const parent = Array.from({ length: count }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  return links
+    .map((link) => ({ link, weight: weight(link) }))
+    .sort((p, q) => p.weight - q.weight)
+    .filter(({ link }) => {
+      const rootA = find(link.a);
+      const rootB = find(link.b);
+      if (rootA === rootB) return false;
+      parent[rootA] = rootB;
+      return true;
+    })
+    .map(({ link }) => link);
+}
+
+/**
+ * Simulate a connector layout and score how it hangs: lower is better.
+ * Penalises pieces rotating away from their designed orientation, drifting
+ * relative to each other, overlapping, and still swinging at the end.
+ */
+export function scoreConnectorLayout(
+  pieces: Polygon[],
+  connectors: LineSegment[],
+  options: Pick<
+    AutoConnectOptions,
+    | "holeDiameter"
+    | "material"
+    | "width"
+    | "height"
+    | "steps"
+    | "connectorLength"
+    | "hanger"
+  >
+) {
+  const world = createSimulationWorld(
+    pieces,
+    connectors,
+    options.holeDiameter,
+    options.material,
+    options.width,
+    options.height,
+    options.hanger
+  );
+  try {
+    const { engine } = world;
+    engine.constraintIterations = SCORING_CONSTRAINT_ITERATIONS;
+    const bodies = world.pieces.map((piece) => piece.body);
+    if (!bodies.length) return Number.POSITIVE_INFINITY;
+    const initial = new Map(
+      bodies.map((body) => [body.id, { ...body.position }])
+    );
+    const steps = options.steps ?? DEFAULT_STEPS;
+    for (let i = 0; i < steps; i += 1) {
+      Matter.Engine.update(engine, STEP_MS);
+    }
+
+    const totalArea = bodies.reduce((sum, body) => sum + body.area, 0) || 1;
+    const deltas = bodies.map((body) => {
+      const start = initial.get(body.id) ?? body.position;
+      return {
+        x: body.position.x - start.x,
+        y: body.position.y - start.y,
+      };
+    });
+    const meanDelta = deltas.reduce(
+      (acc, delta, index) => ({
+        x: acc.x + (delta.x * bodies[index].area) / totalArea,
+        y: acc.y + (delta.y * bodies[index].area) / totalArea,
+      }),
+      { x: 0, y: 0 }
+    );
+    const lengthPx = mmToPx(options.connectorLength);
+
+    let tilt = 0;
+    let drift = 0;
+    let motion = 0;
+    bodies.forEach((body, index) => {
+      const weight = body.area / totalArea;
+      const angle = Math.atan2(Math.sin(body.angle), Math.cos(body.angle));
+      tilt += Math.abs(angle) * weight;
+      drift += (distance(deltas[index], meanDelta) / lengthPx) * weight;
+      motion += (body.speed + body.angularSpeed * 10) * weight;
+    });
+
+    const pieceIds = new Set(
+      bodies.flatMap((body) => body.parts.map((part) => part.id))
+    );
+    let overlap = 0;
+    engine.pairs.list.forEach((pair: Matter.Pair) => {
+      if (
+        pair.isActive &&
+        pieceIds.has(pair.bodyA.id) &&
+        pieceIds.has(pair.bodyB.id)
+      ) {
+        overlap += pair.collision.depth;
+      }
+    });
+
+    return (
+      tilt * 4 +
+      drift +
+      overlap / lengthPx +
+      motion * 0.1 +
+      connectors.length * CONNECTOR_COST
+    );
+  } finally {
+    world.destroy();
+  }
+}
+
+/**
+ * Propose connectors that tie every piece into one hanging ornament. Builds
+ * layouts from a spanning tree over the gaps between adjacent pieces plus a
+ * share of the remaining links for rigidity, simulates each and resolves to
+ * the one that hangs most level. Existing anchor connectors are kept; each
+ * outline's pieces that neither an anchor nor the ribbon hanger holds get one
+ * at the top of their highest piece, since separate ornaments are usually too
+ * far apart to link. An outline with no room for one there is left as it was
+ * and counted in `unanchoredOutlines`; null when no outline can be hung.
+ */
+export async function autoConnect(
+  pieces: Polygon[],
+  existing: LineSegment[],
+  options: AutoConnectOptions
+): Promise<AutoConnectResult | null> {
+  const lengthPx = mmToPx(options.connectorLength);
+  const holeRadius = mmToPx(options.holeDiameter) / 2;
+  const hangers = existing.filter((connector) => connector.anchor);
+  const hangPoints = [
+    ...hangers.flatMap((connector) => [connector.start, connector.end]),
+    ...(options.hanger ? hangerHoles(options.hanger) : []),
+  ];
+  const usable: Polygon[] = [];
+  const kept: LineSegment[] = [];
+  let unanchoredOutlines = 0;
+  groupByOutline(pieces.filter((piece) => piece.points.length >= 3)).forEach(
+    (group, maskId) => {
+      const held = hangPoints.some((point) =>
+        group.some((piece) => isPointInsideMask(point, piece))
+      );
+      const hanger = held ? null : createHanger(group, lengthPx);
+      if (!held && !hanger) {
+        unanchoredOutlines += 1;
+        kept.push(
+          ...existing.filter(
+            (connector) => !connector.anchor && connector.maskId === maskId
+          )
+        );
+        return;
+      }
+      if (hanger) hangers.push(hanger);
+      usable.push(...group);
+    }
+  );
+  if (!usable.length) return null;
+
+  const links: Link[] = [];
+  for (let a = 0; a < usable.length; a += 1) {
+    for (let b = a + 1; b < usable.length; b += 1) {
+      const link = linkBetween(usable, a, b, lengthPx, holeRadius);
+      if (link) links.push(link);
+    }
+  }
+
+  const random = createRandom(options.seed ?? 1);
+  const strategies: ((link: Link) => number)[] = [
+    // Narrowest gaps first.
+    (link) => link.gap,
+    // Prefer vertical connectors, which hang under tension.
+    (link) => {
+      const { start, end } = link.connectors[0];
+      return (
+        Math.abs(end.x - start.x) / (distance(start, end) || 1) +
+        link.gap / lengthPx
+      );
+    },
+    // Prefer links that keep pieces from pivoting.
+    (link) => link.gap / link.connectors.length,
+  ];
+
+  const count = Math.max(options.candidates ?? DEFAULT_CANDIDATES, 1);
+  const layouts: Link[][] = [links];
+  const seen = new Set<string>();
+  const keyOf = (layout: Link[]) =>
+    layout
+      .map((link) => `${link.a}-${link.b}`)
+      .sort()
+      .join(",");
+  seen.add(keyOf(links));
+  for (let i = 0; layouts.length < count && i < count * 3; i += 1) {
+    // Past the first round, jitter the strategies to explore other trees.
+    const strategy = strategies[i % strategies.length];
+    const jitter = i >= strategies.length;
+    const weights = new Map(
+      links.map((link) => [
+        link,
+        strategy(link) * (jitter ? 0.5 + random() : 1),
+      ])
+    );
+    const weight = (link: Link) => weights.get(link) ?? 0;
+    const tree = spanningLinks(usable.length, links, weight);
+    const share =
+      EXTRA_LINK_SHARES[
+        Math.floor(i / strategies.length) % EXTRA_LINK_SHARES.length
+      ];
+    const extras = links
+      .filter((link) => !tree.includes(link))
+      .sort((p, q) => weight(p) - weight(q));
+    const layout = [
+      ...tree,
+      ...extras.slice(0, Math.round(extras.length * share)),
+    ];
+    const key = keyOf(layout);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    layouts.push(layout);
+  }
+
+  let best: AutoConnectResult | null = null;
+  for (const layout of layouts) {
+    const connectors = [
+      ...hangers,
+      ...layout.flatMap((link) => link.connectors),
+    ];
+    const score = scoreConnectorLayout(usable, connectors, options);
+    if (!best || score < best.score) {
+      best = {
+        connectors: [...connectors, ...kept],
+        score,
+        unanchoredOutlines,
+      };
+    }
+    // Let the page repaint between simulations.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return best;
+}
@@ -0,0 +1,188 @@
+import type { BinaryBitmap, Point, Polygon } from "../types";
+import { computeDistanceField } from "./distanceField";
+import { traceBinaryBitmap } from "./tracing";
+
+export interface AutoTraceOptions {
+  // 0–255; pixels darker than this are the shape (lighter with `invert`).
+  threshold: number;
+  invert: boolean;
+}
+
+export const DEFAULT_AUTO_TRACE: AutoTraceOptions = {
+  threshold: 128,
+  invert: false,
+};
+
+// Images are traced at most this many pixels across; finer detail would be
+// simplified away anyway.
+export const AUTO_TRACE_MAX_SIZE = 512;
+const MAX_OUTLINE_POINTS = 120;
+const MAX_HOLE_POINTS = 40;
+// Specks and hairlines thinner than twice this many pixels are dropped.
+const DESPECKLE_RADIUS = 1.5;
+// Holes smaller than this fraction of the outline are noise, not cut-outs.
+const MIN_HOLE_AREA_RATIO = 0.005;
+
+interface ImageLike {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+function ringArea(points: Point[]) {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area / 2);
+}
+
+function toBitmap(width: number, height: number, mask: Uint8Array) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  mask.forEach((value, i) => {
+    // Opaque white foreground on a transparent background, as the tracer
+    // expects.
+    if (value) data.fill(255, i * 4, i * 4 + 4);
+  });
+  return { width, height, data };
+}
+
+/**
+ * Split an image into shape and background by luminance. Transparent pixels
+ * are always background.
+ */
+export function thresholdImage(
+  image: ImageLike,
+  { threshold, invert }: AutoTraceOptions
+): BinaryBitmap {
+  const { width, height, data } = image;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i += 1) {
+    const offset = i * 4;
+    if (data[offset + 3] < 128) continue;
+    const luminance =
+      0.299 * data[offset] +
+      0.587 * data[offset + 1] +
+      0.114 * data[offset + 2];
+    mask[i] = luminance < threshold !== invert ? 1 : 0;
+  }
+  return toBitmap(width, height, mask);
+}
+
+// Morphological opening through two distance fields: keep the pixels deeper
+// than the radius inside the shape, then grow them back by the same radius.
+function despeckle(bitmap: BinaryBitmap): BinaryBitmap {
+  const { width, height } = bitmap;
+  const inward = computeDistanceField(bitmap);
+  const core = new Uint8Array(width * height);
+  for (let i = 0; i < core.length; i += 1) {
+    // The distance field measures from white pixels, so the core is black.
+    core[i] = inward.field[i] > DESPECKLE_RADIUS ? 0 : 1;
+  }
+  const outward = computeDistanceField(toBitmap(width, height, core));
+  const opened = new Uint8Array(width * height);
+  for (let i = 0; i < opened.length; i += 1) {
+    opened[i] = outward.field[i] <= DESPECKLE_RADIUS ? 1 : 0;
+  }
+  return toBitmap(width, height, opened);
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq
+    ? Math.max(
+        0,
+        Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq)
+      )
+    : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+// Ramer–Douglas–Peucker on an open polyline; keeps both ends.
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  let worst = 0;
+  let worstIndex = 0;
+  for (let i = 1; i < points.length - 1; i += 1) {
+    const distance = distanceToSegment(
+      points[i],
+      points[0],
+      points[points.length - 1]
+    );
+    if (distance > worst) {
+      worst = distance;
+      worstIndex = i;
+    }
+  }
+  if (worst <= tolerance) return [points[0], points[points.length - 1]];
+  const head = simplifyPolyline(points.slice(0, worstIndex + 1), tolerance);
+  const tail = simplifyPolyline(points.slice(worstIndex), tolerance);
+  return [...head.slice(0, -1), ...tail];
+}
+
+/**
+ * Simplify a closed ring to at most `maxPoints`, loosening the tolerance
+ * until it fits.
+ */
+function simplifyClosedRing(points: Point[], maxPoints: number): Point[] {
+  // Split at the point farthest from the first so both halves are real arcs.
+  let farthest = 0;
+  points.forEach((point, index) => {
+    if (
+      Math.hypot(point.x - points[0].x, point.y - points[0].y) >
+      Math.hypot(
+        points[farthest].x - points[0].x,
+        points[farthest].y - points[0].y
+      )
+    ) {
+      farthest = index;
+    }
+  });
+  if (!farthest) return points.slice(0, maxPoints);
+  const first = points.slice(0, farthest + 1);
+  const second = [...points.slice(farthest), points[0]];
+  // Each half ends where the other starts, so drop its last point.
+  const half = (arc: Point[], tolerance: number) =>
+    simplifyPolyline(arc, tolerance).slice(0, -1);
+  let tolerance = 0.5;
+  for (;;) {
+    const result = [...half(first, tolerance), ...half(second, tolerance)];
+    if (result.length <= maxPoints || result.length <= 3) return result;
+    tolerance *= 1.5;
+  }
+}
+
+/**
+ * Trace the largest shape in an image, in image pixels, with holes that are
+ * big enough to matter. Returns null when nothing passes the threshold.
+ */
+export function autoTraceOutline(
+  image: ImageLike,
+  options: AutoTraceOptions = DEFAULT_AUTO_TRACE
+): Polygon | null {
+  const traced = traceBinaryBitmap(despeckle(thresholdImage(image, options)));
+  let largest: Polygon | null = null;
+  let largestArea = 0;
+  for (const polygon of traced) {
+    const area = ringArea(polygon.points);
+    if (area > largestArea) {
+      largest = polygon;
+      largestArea = area;
+    }
+  }
+  if (!largest) return null;
+  const { id, points, holes = [] } = largest;
+  const keptHoles = holes
+    .filter((hole) => ringArea(hole) >= largestArea * MIN_HOLE_AREA_RATIO)
+    .map((hole) => simplifyClosedRing(hole, MAX_HOLE_POINTS))
+    .filter((hole) => hole.length >= 3);
+  return {
+    id,
+    points: simplifyClosedRing(points, MAX_OUTLINE_POINTS),
+    ...(keptHoles.length ? { holes: keptHoles } : {}),
+  };
+}
@@ -0,0 +1,224 @@
+import type {
+  Hanger,
+  LineSegment,
+  Material,
+  Point,
+  Polygon,
+  ValidationIssue,
+} from "../types";
+import { hangerHoles } from "./hanger";
+import { isPointInsideMask } from "./segments";
+import { connectorHoles } from "./validation";
+
+export interface ConnectivityEdge {
+  connectorId: string;
+  // Index into the graph's pieces for each end, -1 when the end misses every
+  // piece.
+  a: number;
+  b: number;
+  anchor: boolean;
+}
+
+export interface ConnectivityGraph {
+  pieces: Polygon[];
+  edges: ConnectivityEdge[];
+  // Piece index behind each hanger hole, -1 when it misses every piece.
+  hangerPieces: number[];
+  // Pieces that hang from the hanger or an anchor, directly or through other
+  // pieces.
+  hanging: Set<number>;
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function ringCentre(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+/**
+ * Build the piece/connector graph: which piece each connector end sits in,
+ * and which pieces the hanger or an anchor ultimately holds up.
+ */
+export function buildConnectivityGraph(
+  polygons: Polygon[],
+  connectors: LineSegment[],
+  holeDiameter: number,
+  material: Material,
+  hanger: Hanger | null = null
+): ConnectivityGraph {
+  const pieces = polygons.filter((piece) => piece.points.length >= 3);
+  const holes = connectorHoles(connectors, holeDiameter, material);
+  const pieceAt = (point: Point) =>
+    pieces.findIndex((piece) => isPointInsideMask(point, piece));
+
+  const edges = connectors.map((connector, index) => ({
+    connectorId: connector.id,
+    a: pieceAt(holes[index * 2].point),
+    b: pieceAt(holes[index * 2 + 1].point),
+    anchor: Boolean(connector.anchor),
+  }));
+
+  const hangerPieces = hanger ? hangerHoles(hanger).map(pieceAt) : [];
+
+  const neighbours = pieces.map(() => [] as number[]);
+  const hanging = new Set<number>();
+  const queue: number[] = [];
+  hangerPieces.forEach((piece) => {
+    if (piece === -1 || hanging.has(piece)) return;
+    hanging.add(piece);
+    queue.push(piece);
+  });
+  edges.forEach(({ a, b, anchor }) => {
+    if (a !== -1 && b !== -1) {
+      neighbours[a].push(b);
+      neighbours[b].push(a);
+    } else if (anchor && (a !== -1 || b !== -1)) {
+      const piece = a !== -1 ? a : b;
+      if (!hanging.has(piece)) {
+        hanging.add(piece);
+        queue.push(piece);
+      }
+    }
+  });
+  while (queue.length) {
+    const piece = queue.shift() as number;
+    neighbours[piece].forEach((next) => {
+      if (hanging.has(next)) return;
+      hanging.add(next);
+      queue.push(next);
+    });
+  }
+
+  return { pieces, edges, hangerPieces, hanging };
+}
+
+/**
+ * Report how the connectors tie the pieces together: pieces nothing hangs
+ * them from, connectors with both ends on one piece, ends that miss every
+ * piece without being marked as an anchor, anchors with no free end, and
+ * connectors that close a loop between pieces.
+ */
+export function analyzeConnectivity(
+  polygons: Polygon[],
+  connectors: LineSegment[],
+  holeDiameter: number,
+  material: Material,
+  hanger: Hanger | null = null
+): ValidationIssue[] {
+  const { pieces, edges, hangerPieces, hanging } = buildConnectivityGraph(
+    polygons,
+    connectors,
+    holeDiameter,
+    material,
+    hanger
+  );
+  const issues: ValidationIssue[] = [];
+
+  if (hanger && pieces.length) {
+    hangerHoles(hanger).forEach((point, index) => {
+      if (hangerPieces[index] !== -1) return;
+      issues.push({
+        kind: "loose-end",
+        severity: "warning",
+        message: "Hanger hole is outside every piece",
+        point,
+      });
+    });
+  }
+
+  // Union-find over the pieces; a second connector between the same pair
+  // only stiffens the joint, so loops are counted per pair of pieces.
+  const parent = pieces.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const joined = new Set<string>();
+
+  edges.forEach(({ connectorId, a, b, anchor }, index) => {
+    const connector = connectors[index];
+    const ids = [connectorId];
+    if (a === -1 && b === -1) {
+      issues.push({
+        kind: anchor ? "idle-anchor" : "loose-end",
+        severity: "warning",
+        message: anchor
+          ? "Anchor connector does not reach any piece"
+          : "Connector is not attached to any piece",
+        point: midpoint(connector.start, connector.end),
+        connectorIds: ids,
+      });
+      return;
+    }
+    if (a === -1 || b === -1) {
+      if (anchor) return;
+      issues.push({
+        kind: "loose-end",
+        severity: "warning",
+        message:
+          "Connector end is outside every piece; mark it as an anchor if the ornament should hang from it",
+        point: a === -1 ? connector.start : connector.end,
+        connectorIds: ids,
+      });
+      return;
+    }
+    if (anchor) {
+      issues.push({
+        kind: "idle-anchor",
+        severity: "warning",
+        message: "Anchor connector has no free end to hang from",
+        point: midpoint(connector.start, connector.end),
+        connectorIds: ids,
+      });
+    }
+    if (a === b) {
+      issues.push({
+        kind: "same-piece",
+        severity: "warning",
+        message: "Connector has both ends on the same piece",
+        point: midpoint(connector.start, connector.end),
+        connectorIds: ids,
+        pieceIds: [pieces[a].id],
+      });
+      return;
+    }
+    const pair = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (joined.has(pair)) return;
+    joined.add(pair);
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) {
+      issues.push({
+        kind: "cycle",
+        severity: "info",
+        message: "Connector closes a loop between pieces",
+        point: midpoint(connector.start, connector.end),
+        connectorIds: ids,
+        pieceIds: [pieces[a].id, pieces[b].id],
+      });
+      return;
+    }
+    parent[rootA] = rootB;
+  });
+
+  pieces.forEach((piece, index) => {
+    if (hanging.has(index)) return;
+    issues.push({
+      kind: "unreachable-piece",
+      severity: "warning",
+      message: "Piece does not hang from the hanger or any anchor",
+      point: ringCentre(piece.points),
+      pieceIds: [piece.id],
+    });
+  });
+
+  return issues;
+}
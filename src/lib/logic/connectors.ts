@@ -5,18 +5,8 @@ import {
   moveSegment,
 } from "./segments";
 
-export const PX_PER_MM = 5;
-
-export function mmToPx(mm: number) {
-  return mm * PX_PER_MM;
-}
-
-export function pxToMm(px: number) {
-  return px / PX_PER_MM;
-}
-
 export function createConnectorAtPoint(
-  _mask: MaskPolygon,
+  mask: MaskPolygon | null,
   click: Point,
   lengthPx: number
 ): LineSegment | null {
@@ -29,13 +19,14 @@ export function createConnectorAtPoint(
     start,
     end,
     mode: "tension",
+    ...(mask ? { maskId: mask.id } : {}),
   };
 }
 
 export function moveConnector(
   segment: LineSegment,
   delta: Point,
-  mask: MaskPolygon
+  mask: MaskPolygon | null
 ) {
   return moveSegment(segment, delta, mask);
 }
@@ -76,7 +67,7 @@ function pointOnLineWithLength(
 export function resizeConnectorFromStart(
   segment: LineSegment,
   lengthPx: number,
-  _mask: MaskPolygon
+  _mask: MaskPolygon | null
 ): LineSegment {
   const end = pointOnLineWithLength(segment.start, segment.end, lengthPx);
   if (!end) {
@@ -89,7 +80,7 @@ export function moveConnectorEndpoint(
   segment: LineSegment,
   endpoint: "start" | "end",
   pointer: Point,
-  _mask: MaskPolygon,
+  _mask: MaskPolygon | null,
   lengthPx: number
 ): LineSegment | null {
   const anchor = endpoint === "start" ? segment.end : segment.start;
@@ -3,16 +3,18 @@ import type { BinaryBitmap, MaskPolygon, Point, Polygon } from "../types";
 export interface RasterizeOptions {
   width: number;
   height: number;
+  // Stroke width in scene pixels.
   strokeWidth?: number;
+  // Raster pixels per scene pixel.
+  scale?: number;
 }
 
 type AnyCanvasContext =
   | CanvasRenderingContext2D
   | OffscreenCanvasRenderingContext2D;
 
-function buildPath(ctx: AnyCanvasContext, points: Point[]) {
+function addRing(ctx: AnyCanvasContext, points: Point[]) {
   if (!points.length) return;
-  ctx.beginPath();
   ctx.moveTo(points[0].x, points[0].y);
   for (let i = 1; i < points.length; i += 1) {
     ctx.lineTo(points[i].x, points[i].y);
@@ -20,6 +22,21 @@ function buildPath(ctx: AnyCanvasContext, points: Point[]) {
   ctx.closePath();
 }
 
+function buildPath(ctx: AnyCanvasContext, points: Point[]) {
+  if (!points.length) return;
+  ctx.beginPath();
+  addRing(ctx, points);
+}
+
+// Outer ring plus holes; fill/clip with "evenodd" so the holes stay empty.
+function buildMaskPath(ctx: AnyCanvasContext, mask: MaskPolygon) {
+  ctx.beginPath();
+  addRing(ctx, mask.points);
+  (mask.holes ?? []).forEach((hole) => {
+    if (hole.length >= 3) addRing(ctx, hole);
+  });
+}
+
 function createContext(width: number, height: number) {
   if (typeof OffscreenCanvas !== "undefined") {
     const canvas = new OffscreenCanvas(width, height);
@@ -35,40 +52,49 @@ function createContext(width: number, height: number) {
   return null;
 }
 
+export interface VoronoiMaskLayer {
+  mask: MaskPolygon;
+  polygons: Polygon[];
+}
+
 export function rasterizeVoronoiMask(
-  polygons: Polygon[],
-  mask: MaskPolygon,
+  layers: VoronoiMaskLayer[],
   options: RasterizeOptions
 ): BinaryBitmap | null {
-  const { width, height, strokeWidth = 2 } = options;
+  const { width, height, strokeWidth = 2, scale = 1 } = options;
   const ctx = createContext(width, height);
   if (!ctx) return null;
 
   ctx.clearRect(0, 0, width, height);
   ctx.fillStyle = "#000";
   ctx.fillRect(0, 0, width, height);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
 
-  if (mask.points.length >= 3) {
-    buildPath(ctx, mask.points);
-    ctx.fillStyle = "#fff";
-    ctx.fill();
-  }
-
-  if (polygons.length) {
-    ctx.save();
+  layers.forEach(({ mask, polygons }) => {
     if (mask.points.length >= 3) {
-      buildPath(ctx, mask.points);
-      ctx.clip();
+      buildMaskPath(ctx, mask);
+      ctx.fillStyle = "#fff";
+      ctx.fill("evenodd");
     }
-    ctx.strokeStyle = "#000";
-    ctx.lineWidth = strokeWidth;
-    ctx.lineCap = "round";
-    polygons.forEach((polygon) => {
-      buildPath(ctx, polygon.points);
-      ctx.stroke();
-    });
-    ctx.restore();
-  }
+
+    if (polygons.length) {
+      // Clip each outline's cell edges to that outline so neighbouring
+      // ornaments on the same sheet never cut into each other.
+      ctx.save();
+      if (mask.points.length >= 3) {
+        buildMaskPath(ctx, mask);
+        ctx.clip("evenodd");
+      }
+      ctx.strokeStyle = "#000";
+      ctx.lineWidth = strokeWidth;
+      ctx.lineCap = "round";
+      polygons.forEach((polygon) => {
+        buildPath(ctx, polygon.points);
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
+  });
 
   const imageData = ctx.getImageData(0, 0, width, height);
   const dataCopy = new Uint8ClampedArray(imageData.data);
@@ -0,0 +1,462 @@
+import type {
+  ExportLayers,
+  Hanger,
+  LineSegment,
+  MaskPolygon,
+  Material,
+  Point,
+  Polygon,
+} from "../types";
+import { DEFAULT_EXPORT_LAYERS, registrationMarks } from "./exportLayers";
+import { HANGER_HOLE_DIAMETER_MM, hangerHoles } from "./hanger";
+import { compensateKerf, layerKerf } from "./kerf";
+import {
+  flattenContours,
+  labelStyle,
+  layoutLabel,
+  type LabelFonts,
+} from "./labelText";
+import { encodeQrCode } from "./qrCode";
+import { isPointInsideMask } from "./segments";
+import {
+  connectorHoleCuts,
+  outlineBeziers,
+  type EngravedQrCode,
+} from "./svgExport";
+import { mmToPx, pxToMm } from "./units";
+
+// One DXF layer per laser operation, with ACI colours; laser software maps
+// colours to its own cut settings, so cut is red, score blue and engrave
+// black as is customary.
+export const DXF_LAYERS = {
+  cut: { name: "CUT", color: 1 },
+  score: { name: "SCORE", color: 5 },
+  engrave: { name: "ENGRAVE", color: 7 },
+} as const;
+
+type Layer = (typeof DXF_LAYERS)[keyof typeof DXF_LAYERS];
+
+// $INSUNITS code for millimetres.
+const UNITS_MM = 4;
+
+// A table record's fields after the ones every record has.
+type TableRecord = { subclass: string; fields: () => void };
+
+// An R2000 (AC1015) writer. Readers such as AutoCAD insist on its object
+// structure: every table, record, block, entity and object carries a unique
+// handle and the handle of its owner, and $HANDSEED in the header is the
+// next free handle.
+function createDxfWriter(heightMm: number) {
+  const lines: string[] = [];
+  let lastHandle = 0;
+  let handseedLine = -1;
+  // Entities belong to the model space block record once it is written.
+  let entityOwner = "0";
+  const nextHandle = () => (lastHandle += 1).toString(16).toUpperCase();
+  const pair = (code: number, value: string | number) =>
+    lines.push(
+      String(code),
+      typeof value === "number" ? String(Number(value.toFixed(4))) : value
+    );
+  // DXF's y axis points up, the scene's down.
+  const xy = (point: Point, code = 10) => {
+    pair(code, pxToMm(point.x));
+    pair(code + 10, heightMm - pxToMm(point.y));
+    pair(code + 20, 0);
+  };
+  const entity = (type: string, layer: Layer, subclass: string) => {
+    pair(0, type);
+    pair(5, nextHandle());
+    pair(330, entityOwner);
+    pair(100, "AcDbEntity");
+    pair(8, layer.name);
+    pair(100, subclass);
+  };
+
+  return {
+    pair,
+    xy,
+    handseed() {
+      pair(9, "$HANDSEED");
+      handseedLine = lines.length + 1;
+      pair(5, "");
+    },
+    // Returns the handles of the records, in order.
+    table(name: string, records: TableRecord[]) {
+      const table = nextHandle();
+      const handles = records.map(nextHandle);
+      pair(0, "TABLE");
+      pair(2, name);
+      pair(5, table);
+      pair(330, "0");
+      pair(100, "AcDbSymbolTable");
+      pair(70, records.length);
+      if (name === "DIMSTYLE") {
+        pair(100, "AcDbDimStyleTable");
+        pair(71, records.length);
+        handles.forEach((handle) => pair(340, handle));
+      }
+      records.forEach((record, i) => {
+        pair(0, name);
+        // Dimension styles keep their handle under a code of their own.
+        pair(name === "DIMSTYLE" ? 105 : 5, handles[i]);
+        pair(330, table);
+        pair(100, "AcDbSymbolTableRecord");
+        pair(100, record.subclass);
+        record.fields();
+      });
+      pair(0, "ENDTAB");
+      return handles;
+    },
+    // An empty block definition for a block record, owned by it.
+    block(name: string, blockRecord: string, paperSpace = false) {
+      pair(0, "BLOCK");
+      pair(5, nextHandle());
+      pair(330, blockRecord);
+      pair(100, "AcDbEntity");
+      if (paperSpace) pair(67, 1);
+      pair(8, "0");
+      pair(100, "AcDbBlockBegin");
+      pair(2, name);
+      pair(70, 0);
+      pair(10, 0);
+      pair(20, 0);
+      pair(30, 0);
+      pair(3, name);
+      pair(1, "");
+      pair(0, "ENDBLK");
+      pair(5, nextHandle());
+      pair(330, blockRecord);
+      pair(100, "AcDbEntity");
+      if (paperSpace) pair(67, 1);
+      pair(8, "0");
+      pair(100, "AcDbBlockEnd");
+    },
+    entitiesOf(blockRecord: string) {
+      entityOwner = blockRecord;
+    },
+    // The root dictionary, holding the group dictionary AutoCAD requires.
+    objects() {
+      const root = nextHandle();
+      const groups = nextHandle();
+      pair(0, "DICTIONARY");
+      pair(5, root);
+      pair(330, "0");
+      pair(100, "AcDbDictionary");
+      pair(281, 1);
+      pair(3, "ACAD_GROUP");
+      pair(350, groups);
+      pair(0, "DICTIONARY");
+      pair(5, groups);
+      pair(330, root);
+      pair(100, "AcDbDictionary");
+      pair(281, 1);
+    },
+    // A closed piecewise cubic, written as a clamped B-spline whose knots all
+    // have multiplicity three so it matches the Béziers exactly.
+    spline(layer: Layer, controls: Point[]) {
+      const segments = (controls.length - 1) / 3;
+      entity("SPLINE", layer, "AcDbSpline");
+      pair(210, 0);
+      pair(220, 0);
+      pair(230, 1);
+      pair(70, 8);
+      pair(71, 3);
+      pair(72, controls.length + 4);
+      pair(73, controls.length);
+      pair(74, 0);
+      [
+        0,
+        ...Array.from({ length: segments + 1 }, (_, i) => [i, i, i]),
+        segments,
+      ]
+        .flat()
+        .forEach((knot) => pair(40, knot));
+      controls.forEach((point) => xy(point));
+    },
+    polyline(layer: Layer, points: Point[]) {
+      entity("LWPOLYLINE", layer, "AcDbPolyline");
+      pair(90, points.length);
+      pair(70, 1);
+      points.forEach((point) => {
+        pair(10, pxToMm(point.x));
+        pair(20, heightMm - pxToMm(point.y));
+      });
+    },
+    line(layer: Layer, from: Point, to: Point) {
+      entity("LINE", layer, "AcDbLine");
+      xy(from);
+      xy(to, 11);
+    },
+    circle(layer: Layer, center: Point, radiusMm: number) {
+      entity("CIRCLE", layer, "AcDbCircle");
+      xy(center);
+      pair(40, radiusMm);
+    },
+    // Vertically centred on `at`, rotated counter-clockwise by `angleDeg`;
+    // `justify` is DXF's horizontal justification (0 left, 1 centre, 2 right).
+    text(
+      layer: Layer,
+      at: Point,
+      sizeMm: number,
+      angleDeg: number,
+      value: string,
+      justify = 1
+    ) {
+      entity("TEXT", layer, "AcDbText");
+      xy(at);
+      pair(40, sizeMm);
+      pair(1, value);
+      pair(50, angleDeg);
+      pair(72, justify);
+      xy(at, 11);
+      pair(100, "AcDbText");
+      pair(73, 2);
+    },
+    finish: () => {
+      if (handseedLine !== -1) lines[handseedLine] = nextHandle();
+      return [...lines, ""].join("\n");
+    },
+  };
+}
+
+/**
+ * DXF counterpart of generateSVG for laser software that prefers it: piece
+ * outlines as closed splines, holes as circles, labels as closed polylines
+ * traced from the bundled fonts and the QR code as filled squares, each on
+ * the layer of its export layer's operation, in an R2000 file. Coordinates
+ * are in millimetres; cut outlines and holes are moved half of `kerfMm` off
+ * the material.
+ */
+export function generateDXF(
+  polygons: Polygon[],
+  connectors: LineSegment[],
+  segments: LineSegment[],
+  width: number,
+  height: number,
+  holeDiameterMm: number,
+  material: Material,
+  hanger: Hanger | null = null,
+  qr: EngravedQrCode | null = null,
+  layers: ExportLayers = DEFAULT_EXPORT_LAYERS,
+  masks: MaskPolygon[] = [],
+  fonts: LabelFonts = {},
+  kerfMm = 0
+): string {
+  const heightMm = pxToMm(height);
+  const out = createDxfWriter(heightMm);
+
+  out.pair(0, "SECTION");
+  out.pair(2, "HEADER");
+  out.pair(9, "$ACADVER");
+  out.pair(1, "AC1015");
+  out.handseed();
+  out.pair(9, "$INSUNITS");
+  out.pair(70, UNITS_MM);
+  out.pair(9, "$MEASUREMENT");
+  out.pair(70, 1);
+  out.pair(9, "$EXTMIN");
+  out.xy({ x: 0, y: height });
+  out.pair(9, "$EXTMAX");
+  out.xy({ x: width, y: 0 });
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "CLASSES");
+  out.pair(0, "ENDSEC");
+
+  // Every table an R2000 reader expects, in the order it expects them, with
+  // the records it looks up by name.
+  const widthMm = pxToMm(width);
+  const named = (subclass: string, name: string, rest = () => {}) => ({
+    subclass,
+    fields: () => {
+      out.pair(2, name);
+      out.pair(70, 0);
+      rest();
+    },
+  });
+  out.pair(0, "SECTION");
+  out.pair(2, "TABLES");
+  out.table("VPORT", [
+    named("AcDbViewportTableRecord", "*Active", () => {
+      out.pair(10, 0);
+      out.pair(20, 0);
+      out.pair(11, 1);
+      out.pair(21, 1);
+      out.pair(12, widthMm / 2);
+      out.pair(22, heightMm / 2);
+      out.pair(40, heightMm);
+      out.pair(41, heightMm ? widthMm / heightMm : 1);
+    }),
+  ]);
+  const lineType = (name: string, description: string) =>
+    named("AcDbLinetypeTableRecord", name, () => {
+      out.pair(3, description);
+      out.pair(72, 65);
+      out.pair(73, 0);
+      out.pair(40, 0);
+    });
+  out.table("LTYPE", [
+    lineType("ByBlock", ""),
+    lineType("ByLayer", ""),
+    lineType("Continuous", "Solid line"),
+  ]);
+  out.table(
+    "LAYER",
+    [{ name: "0", color: 7 }, ...Object.values(DXF_LAYERS)].map((layer) =>
+      named("AcDbLayerTableRecord", layer.name, () => {
+        out.pair(62, layer.color);
+        out.pair(6, "Continuous");
+      })
+    )
+  );
+  out.table("STYLE", [
+    named("AcDbTextStyleTableRecord", "Standard", () => {
+      out.pair(40, 0);
+      out.pair(41, 1);
+      out.pair(50, 0);
+      out.pair(71, 0);
+      out.pair(42, 2.5);
+      out.pair(3, "txt");
+      out.pair(4, "");
+    }),
+  ]);
+  out.table("VIEW", []);
+  out.table("UCS", []);
+  out.table("APPID", [named("AcDbRegAppTableRecord", "ACAD")]);
+  out.table("DIMSTYLE", [named("AcDbDimStyleTableRecord", "Standard")]);
+  const [modelSpace, paperSpace] = out.table(
+    "BLOCK_RECORD",
+    ["*Model_Space", "*Paper_Space"].map((name) => ({
+      subclass: "AcDbBlockTableRecord",
+      fields: () => out.pair(2, name),
+    }))
+  );
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "BLOCKS");
+  out.block("*Model_Space", modelSpace);
+  out.block("*Paper_Space", paperSpace, true);
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "ENTITIES");
+  out.entitiesOf(modelSpace);
+
+  const layerFor = (kind: keyof ExportLayers) =>
+    layers[kind].enabled ? DXF_LAYERS[layers[kind].operation] : null;
+  const splines = (layer: Layer | null, shapes: Polygon[]) =>
+    shapes.forEach((shape) =>
+      [shape.points, ...(shape.holes ?? [])].forEach((ring) => {
+        const controls = outlineBeziers(ring);
+        if (layer && controls.length) out.spline(layer, controls);
+      })
+    );
+
+  splines(
+    layerFor("pieces"),
+    compensateKerf(polygons, layerKerf(layers.pieces, kerfMm))
+  );
+  splines(layerFor("outline"), masks);
+
+  const holeLayer = layerFor("holes");
+  if (holeLayer) {
+    const holeKerf = layerKerf(layers.holes, kerfMm);
+    connectorHoleCuts(connectors, holeDiameterMm, material).forEach(
+      ({ point, diameterMm }) =>
+        out.circle(holeLayer, point, (diameterMm - holeKerf) / 2)
+    );
+    (hanger ? hangerHoles(hanger) : []).forEach((point) =>
+      out.circle(holeLayer, point, (HANGER_HOLE_DIAMETER_MM - holeKerf) / 2)
+    );
+  }
+
+  const markLayer = layerFor("registration");
+  if (markLayer) {
+    registrationMarks(width, height).forEach(([a, b]) =>
+      out.line(markLayer, a, b)
+    );
+  }
+
+  const labelLayer = layerFor("labels");
+  if (labelLayer) {
+    segments
+      .filter((segment) => segment.text && segment.text.trim().length > 0)
+      .forEach((segment) => {
+        const style = labelStyle(segment);
+        const font = fonts[style.fontFamily];
+        if (font) {
+          flattenContours(layoutLabel(font, segment).contours).forEach((ring) =>
+            out.polyline(labelLayer, ring)
+          );
+          return;
+        }
+        const angle = Math.atan2(
+          segment.end.y - segment.start.y,
+          segment.end.x - segment.start.x
+        );
+        const along =
+          style.align === "start"
+            ? segment.start
+            : style.align === "end"
+            ? segment.end
+            : {
+                x: (segment.start.x + segment.end.x) / 2,
+                y: (segment.start.y + segment.end.y) / 2,
+              };
+        const offset = mmToPx(style.offset);
+        const anchor = {
+          x: along.x + Math.sin(angle) * offset,
+          y: along.y - Math.cos(angle) * offset,
+        };
+        out.text(
+          labelLayer,
+          anchor,
+          style.fontSize,
+          (-angle * 180) / Math.PI,
+          segment.text!,
+          style.align === "start" ? 0 : style.align === "end" ? 2 : 1
+        );
+      });
+
+    // As in the SVG, the QR code needs a piece under its centre.
+    const modules =
+      qr && polygons.some((polygon) => isPointInsideMask(qr.point, polygon))
+        ? encodeQrCode(qr.text)
+        : null;
+    if (qr && modules) {
+      const modulePx = mmToPx(qr.size / modules.length);
+      const left = qr.point.x - (modulePx * modules.length) / 2;
+      const top = qr.point.y - (modulePx * modules.length) / 2;
+      // One rectangle per horizontal run of dark modules.
+      modules.forEach((row, y) => {
+        for (let x = 0; x < row.length; x += 1) {
+          if (!row[x]) continue;
+          const start = x;
+          while (row[x + 1]) x += 1;
+          const x0 = left + start * modulePx;
+          const x1 = left + (x + 1) * modulePx;
+          const y0 = top + y * modulePx;
+          const y1 = y0 + modulePx;
+          out.polyline(labelLayer, [
+            { x: x0, y: y0 },
+            { x: x1, y: y0 },
+            { x: x1, y: y1 },
+            { x: x0, y: y1 },
+          ]);
+        }
+      });
+    }
+  }
+
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "OBJECTS");
+  out.objects();
+  out.pair(0, "ENDSEC");
+  out.pair(0, "EOF");
+  return out.finish();
+}
@@ -0,0 +1,97 @@
+import type {
+  ExportLayerKind,
+  ExportLayers,
+  LaserOperation,
+  Point,
+} from "../types";
+import { mmToPx } from "./units";
+
+export const EXPORT_LAYER_LABELS: Record<ExportLayerKind, string> = {
+  pieces: "Pieces",
+  holes: "Holes",
+  labels: "Labels",
+  outline: "Outline",
+  registration: "Registration marks",
+};
+
+export const DEFAULT_EXPORT_LAYERS: ExportLayers = {
+  pieces: {
+    enabled: true,
+    color: "#4DE2FF",
+    strokeWidth: 0.1,
+    operation: "cut",
+  },
+  holes: {
+    enabled: true,
+    color: "#7E6CFF",
+    strokeWidth: 0.18,
+    operation: "cut",
+  },
+  labels: {
+    enabled: true,
+    color: "#FF6CB5",
+    strokeWidth: 0.1,
+    operation: "engrave",
+  },
+  outline: {
+    enabled: false,
+    color: "#6CFF9A",
+    strokeWidth: 0.1,
+    operation: "score",
+  },
+  registration: {
+    enabled: false,
+    color: "#FFB86B",
+    strokeWidth: 0.1,
+    operation: "score",
+  },
+};
+
+const OPERATION_ORDER: LaserOperation[] = ["engrave", "score", "cut"];
+// Within an operation: marks first, and holes before the pieces around them
+// so a piece does not drop out before its holes are cut.
+const KIND_ORDER: ExportLayerKind[] = [
+  "registration",
+  "labels",
+  "outline",
+  "holes",
+  "pieces",
+];
+
+/**
+ * Enabled layers in the order a laser should run them.
+ */
+export function exportLayerOrder(layers: ExportLayers): ExportLayerKind[] {
+  return KIND_ORDER.filter((kind) => layers[kind].enabled).sort(
+    (a, b) =>
+      OPERATION_ORDER.indexOf(layers[a].operation) -
+      OPERATION_ORDER.indexOf(layers[b].operation)
+  );
+}
+
+const MARK_INSET_MM = 5;
+const MARK_ARM_MM = 3;
+
+/**
+ * Crosshairs near the corners of the sheet for lining up a second pass, as
+ * pairs of line end points in px.
+ */
+export function registrationMarks(width: number, height: number): Point[][] {
+  const inset = mmToPx(MARK_INSET_MM);
+  const arm = mmToPx(MARK_ARM_MM);
+  return [
+    { x: inset, y: inset },
+    { x: width - inset, y: inset },
+    { x: width - inset, y: height - inset },
+    { x: inset, y: height - inset },
+  ].flatMap(({ x, y }) => [
+    [
+      { x: x - arm, y },
+      { x: x + arm, y },
+    ],
+    [
+      { x, y: y - arm },
+      { x, y: y + arm },
+    ],
+  ]);
+}
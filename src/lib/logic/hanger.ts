@@ -0,0 +1,96 @@
+import type { Hanger, MaskPolygon, Point } from "../types";
+import { isPointInsideMask } from "./segments";
+import { mmToPx } from "./units";
+
+// Large enough to thread a ribbon or an ornament hook through.
+export const HANGER_HOLE_DIAMETER_MM = 3;
+export const DEFAULT_RIBBON_LENGTH_MM = 40;
+// Spacing of the two holes when switching to two-point hanging.
+const TWO_POINT_SPACING_MM = 30;
+const HIT_RADIUS = 10;
+
+/**
+ * Place a hanger just inside the top of an outline, below its highest point.
+ */
+export function createDefaultHanger(mask: MaskPolygon | null): Hanger | null {
+  if (!mask || mask.points.length < 3) return null;
+  const top = mask.points.reduce((best, point) =>
+    point.y < best.y ? point : best
+  );
+  const point = { x: top.x, y: top.y + mmToPx(HANGER_HOLE_DIAMETER_MM) * 2 };
+  if (!isPointInsideMask(point, mask)) return null;
+  return { point, ribbonLength: DEFAULT_RIBBON_LENGTH_MM };
+}
+
+export function withSecondPoint(hanger: Hanger, enabled: boolean): Hanger {
+  const { secondPoint: _previous, ...single } = hanger;
+  if (!enabled) return single;
+  const half = mmToPx(TWO_POINT_SPACING_MM) / 2;
+  return {
+    ...single,
+    point: { x: hanger.point.x - half, y: hanger.point.y },
+    secondPoint: { x: hanger.point.x + half, y: hanger.point.y },
+  };
+}
+
+export function hangerHoles(hanger: Hanger): Point[] {
+  return hanger.secondPoint
+    ? [hanger.point, hanger.secondPoint]
+    : [hanger.point];
+}
+
+/**
+ * The fixed point the ribbon is tied off at: straight above a single hole,
+ * or above the middle of two holes where both ribbon ends meet.
+ */
+export function hangerPivot(hanger: Hanger): Point {
+  const ribbon = mmToPx(hanger.ribbonLength);
+  if (!hanger.secondPoint) {
+    return { x: hanger.point.x, y: hanger.point.y - ribbon };
+  }
+  const mid = {
+    x: (hanger.point.x + hanger.secondPoint.x) / 2,
+    y: (hanger.point.y + hanger.secondPoint.y) / 2,
+  };
+  const half =
+    Math.hypot(
+      hanger.secondPoint.x - hanger.point.x,
+      hanger.secondPoint.y - hanger.point.y
+    ) / 2;
+  const rise = Math.sqrt(Math.max(ribbon * ribbon - half * half, 0));
+  return { x: mid.x, y: mid.y - rise };
+}
+
+export function hitTestHanger(
+  hanger: Hanger | null,
+  point: Point,
+  radius = HIT_RADIUS
+): "point" | "secondPoint" | null {
+  if (!hanger) return null;
+  if (
+    Math.hypot(point.x - hanger.point.x, point.y - hanger.point.y) <= radius
+  ) {
+    return "point";
+  }
+  if (
+    hanger.secondPoint &&
+    Math.hypot(
+      point.x - hanger.secondPoint.x,
+      point.y - hanger.secondPoint.y
+    ) <= radius
+  ) {
+    return "secondPoint";
+  }
+  return null;
+}
+
+export function mapHangerPoints(
+  hanger: Hanger,
+  mapper: (point: Point) => Point
+): Hanger {
+  return {
+    ...hanger,
+    point: mapper(hanger.point),
+    ...(hanger.secondPoint ? { secondPoint: mapper(hanger.secondPoint) } : {}),
+  };
+}
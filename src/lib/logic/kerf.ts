@@ -0,0 +1,93 @@
+import type { ExportLayer, Point, Polygon } from "../types";
+import { mmToPx } from "./units";
+
+function signedArea(points: Point[]) {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+// Longest shift, in multiples of `distance`, a vertex may move; a sharper
+// corner is bevelled short of its miter point rather than sent off in a spike.
+const MITER_LIMIT = 4;
+
+// Unit normal of the edge a -> b, on the left for `orientation` 1.
+function edgeNormal(a: Point, b: Point, orientation: number) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return {
+    x: (-dy / length) * orientation,
+    y: (dx / length) * orientation,
+  };
+}
+
+// Move every vertex so both of its edges lie `distance` px further from the
+// material: outwards for an outer ring, into the cutout for a hole. A vertex
+// moves along the bisector of its edge normals by distance / cos(θ/2), θ being
+// the turn at the vertex, so sharp corners are offset as fully as straight
+// edges.
+function offsetRing(points: Point[], isHole: boolean, distance: number) {
+  if (points.length < 3) return points;
+  // Left-hand normals point into the ring for positive signed area.
+  const orientation = (signedArea(points) > 0 ? -1 : 1) * (isHole ? -1 : 1);
+  return points.map((point, i) => {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    let before = edgeNormal(prev, point, orientation);
+    let after = edgeNormal(point, next, orientation);
+    // A repeated vertex has a zero-length edge; offset along the other one.
+    if (!before.x && !before.y) before = after;
+    if (!after.x && !after.y) after = before;
+    const sum = { x: before.x + after.x, y: before.y + after.y };
+    const sumLength = Math.hypot(sum.x, sum.y);
+    // The outline doubles back on itself: the offset tip runs on past the
+    // vertex, as far as the limit allows.
+    if (sumLength < 1e-9) {
+      const length = Math.hypot(point.x - prev.x, point.y - prev.y) || 1;
+      const reach = (MITER_LIMIT * distance) / length;
+      return {
+        x: point.x + (point.x - prev.x) * reach,
+        y: point.y + (point.y - prev.y) * reach,
+      };
+    }
+    // |sum| = 2 cos(θ/2), so the miter vector is sum * 2 / |sum|².
+    const reach = Math.min(2 / sumLength, MITER_LIMIT);
+    return {
+      x: point.x + (sum.x / sumLength) * reach * distance,
+      y: point.y + (sum.y / sumLength) * reach * distance,
+    };
+  });
+}
+
+/**
+ * The kerf to compensate on `layer`: only cuts go through the material, so
+ * scored and engraved marks stay on their nominal lines.
+ */
+export function layerKerf(layer: ExportLayer, kerfMm: number) {
+  return layer.operation === "cut" ? kerfMm : 0;
+}
+
+/**
+ * The outlines to send to the laser so pieces come out at their designed
+ * size: the beam burns away `kerfMm` of material, half of it on each side of
+ * the path, so every edge moves half the kerf away from the piece. Corners
+ * are mitered, up to a limit of a few kerfs on spikes.
+ */
+export function compensateKerf(polygons: Polygon[], kerfMm: number) {
+  if (!(kerfMm > 0)) return polygons;
+  const distance = mmToPx(kerfMm / 2);
+  return polygons.map((polygon) => ({
+    ...polygon,
+    points: offsetRing(polygon.points, false, distance),
+    ...(polygon.holes
+      ? {
+          holes: polygon.holes.map((hole) => offsetRing(hole, true, distance)),
+        }
+      : {}),
+  }));
+}
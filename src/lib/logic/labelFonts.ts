@@ -0,0 +1,34 @@
+import latoUrl from "../fonts/Lato-Regular.ttf?url";
+import sourceCodeProUrl from "../fonts/SourceCodePro-Regular.ttf?url";
+import type { LabelFontFamily } from "../types";
+import type { LabelFonts } from "./labelText";
+import { parseTrueTypeFont } from "./trueType";
+
+// Bundled with the app (SIL Open Font License, see fonts/OFL.txt) so
+// outlined labels never depend on what is installed where the file is cut.
+const FONT_URLS: Record<LabelFontFamily, string> = {
+  Lato: latoUrl,
+  "Source Code Pro": sourceCodeProUrl,
+};
+
+let loading: Promise<LabelFonts> | null = null;
+
+/**
+ * Fetch and parse the bundled label fonts once. A font that fails to load is
+ * left out, and labels in it fall back to plain text.
+ */
+export function loadLabelFonts(): Promise<LabelFonts> {
+  loading ??= Promise.all(
+    Object.entries(FONT_URLS).map(async ([family, url]) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return [family, parseTrueTypeFont(await response.arrayBuffer())];
+      } catch (error) {
+        console.error("Failed to load label font", family, error);
+        return [family, undefined];
+      }
+    })
+  ).then((entries) => Object.fromEntries(entries) as LabelFonts);
+  return loading;
+}
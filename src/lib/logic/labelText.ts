@@ -0,0 +1,150 @@
+import type { LabelAlign, LabelFontFamily, LineSegment, Point } from "../types";
+import type { GlyphContour, TrueTypeFont } from "./trueType";
+import { mmToPx, pxToMm } from "./units";
+
+export const LABEL_FONT_FAMILIES: LabelFontFamily[] = [
+  "Lato",
+  "Source Code Pro",
+];
+export const LABEL_ALIGNS: LabelAlign[] = ["start", "middle", "end", "fit"];
+
+export const DEFAULT_LABEL_FONT: LabelFontFamily = "Lato";
+// Matches the size labels are drawn at on the canvas.
+export const DEFAULT_LABEL_SIZE_MM = pxToMm(8);
+export const DEFAULT_LABEL_ALIGN: LabelAlign = "middle";
+
+// No bold faces are bundled; bold labels are drawn with an outline stroke
+// this fraction of the em size wide.
+export const BOLD_STROKE_EM = 0.06;
+
+export type LabelFonts = Partial<Record<LabelFontFamily, TrueTypeFont>>;
+export type LabelStyle = Pick<
+  LineSegment,
+  "fontFamily" | "fontSize" | "align" | "offset" | "bold"
+>;
+
+export function labelStyle(segment: LabelStyle) {
+  return {
+    fontFamily: segment.fontFamily ?? DEFAULT_LABEL_FONT,
+    fontSize: segment.fontSize ?? DEFAULT_LABEL_SIZE_MM,
+    align: segment.align ?? DEFAULT_LABEL_ALIGN,
+    offset: segment.offset ?? 0,
+    bold: segment.bold ?? false,
+  };
+}
+
+// `emSize` is in scene px; with "fit" it follows from the segment length.
+export interface LabelLayout {
+  contours: GlyphContour[];
+  emSize: number;
+}
+
+/**
+ * Outline a segment's label with `font`, in scene px. The text runs from
+ * the segment's start towards its end, centred across the segment line on
+ * its capital height (then moved by the offset), and is placed along it by
+ * the segment's alignment.
+ */
+export function layoutLabel(
+  font: TrueTypeFont,
+  segment: LineSegment
+): LabelLayout {
+  const { fontSize, align, offset } = labelStyle(segment);
+  const glyphs = Array.from(segment.text ?? "", (char) =>
+    font.glyphIndex(char.codePointAt(0) ?? 0)
+  );
+  const offsets: number[] = [];
+  let width = 0;
+  glyphs.forEach((glyph, index) => {
+    if (index) width += font.kerning(glyphs[index - 1], glyph);
+    offsets.push(width);
+    width += font.advance(glyph);
+  });
+  if (!width) return { contours: [], emSize: 0 };
+
+  const dx = segment.end.x - segment.start.x;
+  const dy = segment.end.y - segment.start.y;
+  const length = Math.hypot(dx, dy);
+  const along = length ? { x: dx / length, y: dy / length } : { x: 1, y: 0 };
+  // Up from the text's baseline, on screen where y points down.
+  const up = { x: along.y, y: -along.x };
+  const scale =
+    align === "fit" && length
+      ? length / width
+      : mmToPx(fontSize) / font.unitsPerEm;
+  const lead =
+    align === "end"
+      ? length - width * scale
+      : align === "middle"
+      ? (length - width * scale) / 2
+      : 0;
+  const rise = mmToPx(offset) - (font.capHeight * scale) / 2;
+
+  const place = (glyphX: number) => (point: Point) => {
+    const u = lead + (glyphX + point.x) * scale;
+    const v = rise + point.y * scale;
+    return {
+      x: segment.start.x + along.x * u + up.x * v,
+      y: segment.start.y + along.y * u + up.y * v,
+    };
+  };
+  const contours = glyphs.flatMap((glyph, index) => {
+    const toScene = place(offsets[index]);
+    return font.contours(glyph).map((contour) => ({
+      start: toScene(contour.start),
+      segments: contour.segments.map(({ control, to }) => ({
+        ...(control ? { control: toScene(control) } : {}),
+        to: toScene(to),
+      })),
+    }));
+  });
+  return { contours, emSize: scale * font.unitsPerEm };
+}
+
+/**
+ * SVG path data for outlined contours, in mm.
+ */
+export function contoursPathData(contours: GlyphContour[]) {
+  const coord = (point: Point) =>
+    `${pxToMm(point.x).toFixed(3)} ${pxToMm(point.y).toFixed(3)}`;
+  return contours
+    .map(
+      ({ start, segments }) =>
+        `M${coord(start)}` +
+        segments
+          .map(({ control, to }) =>
+            control ? `Q${coord(control)} ${coord(to)}` : `L${coord(to)}`
+          )
+          .join("") +
+        "Z"
+    )
+    .join("");
+}
+
+/**
+ * Contours flattened to closed rings, for formats without curves.
+ */
+export function flattenContours(
+  contours: GlyphContour[],
+  steps = 4
+): Point[][] {
+  return contours.map(({ start, segments }) => {
+    const ring: Point[] = [start];
+    let from = start;
+    segments.forEach(({ control, to }) => {
+      if (control) {
+        for (let i = 1; i < steps; i += 1) {
+          const t = i / steps;
+          const u = 1 - t;
+          ring.push({
+            x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+            y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+          });
+        }
+      }
+      ring.push(to);
+      from = to;
+    });
+    return ring;
+  });
+}
@@ -1,4 +1,5 @@
-import type { MaskPolygon, Point } from "../types";
+import type { LineSegment, MaskPolygon, Point } from "../types";
+import { isPointInsideMask } from "./segments";
 
 const MIN_POINTS = 3;
 
@@ -24,12 +25,50 @@ function distanceToSegment(point: Point, start: Point, end: Point) {
   return distance(point, closest);
 }
 
+// Ring 0 is the outer boundary; ring n is `holes[n - 1]`.
+export function maskRingCount(mask: MaskPolygon) {
+  return 1 + (mask.holes?.length ?? 0);
+}
+
+export function getMaskRing(mask: MaskPolygon, ring: number): Point[] {
+  if (ring === 0) return mask.points;
+  return mask.holes?.[ring - 1] ?? [];
+}
+
+export function setMaskRing(
+  mask: MaskPolygon,
+  ring: number,
+  points: Point[]
+): MaskPolygon {
+  if (ring === 0) {
+    return { ...mask, points };
+  }
+  const holes = (mask.holes ?? []).slice();
+  if (ring - 1 >= holes.length) return mask;
+  holes[ring - 1] = points;
+  return { ...mask, holes };
+}
+
+export function mapMaskPoints(
+  mask: MaskPolygon,
+  transform: (point: Point) => Point
+): MaskPolygon {
+  return {
+    ...mask,
+    points: mask.points.map(transform),
+    ...(mask.holes
+      ? { holes: mask.holes.map((hole) => hole.map(transform)) }
+      : {}),
+  };
+}
+
 export function hitTestMaskPoint(
   mask: MaskPolygon,
   point: Point,
-  radius: number
+  radius: number,
+  ring = 0
 ) {
-  const { points } = mask;
+  const points = getMaskRing(mask, ring);
   if (!points.length) return -1;
 
   for (let i = 0; i < points.length; i += 1) {
@@ -44,9 +83,10 @@ export function hitTestMaskPoint(
 export function hitTestMaskSegment(
   mask: MaskPolygon,
   point: Point,
-  tolerance: number
+  tolerance: number,
+  ring = 0
 ) {
-  const { points } = mask;
+  const points = getMaskRing(mask, ring);
   const count = points.length;
   if (count < 2) return -1;
 
@@ -69,9 +109,10 @@ export function hitTestMaskSegment(
 export function insertPointIntoSegment(
   mask: MaskPolygon,
   segmentIndex: number,
-  point: Point
+  point: Point,
+  ring = 0
 ): MaskPolygon {
-  const { points } = mask;
+  const points = getMaskRing(mask, ring);
   if (points.length === 0) return mask;
 
   const index =
@@ -83,23 +124,23 @@ export function insertPointIntoSegment(
     ...points.slice(insertAt),
   ];
 
-  return {
-    ...mask,
-    points: newPoints,
-  };
+  return setMaskRing(mask, ring, newPoints);
 }
 
 export function deleteMaskPoint(
   mask: MaskPolygon,
-  pointIndex: number
+  pointIndex: number,
+  ring = 0
 ): MaskPolygon {
-  const { points } = mask;
-  if (points.length <= MIN_POINTS) {
-    return mask;
-  }
+  const points = getMaskRing(mask, ring);
   if (pointIndex < 0 || pointIndex >= points.length) {
     return mask;
   }
+  if (points.length <= MIN_POINTS) {
+    // A hole that can no longer stay a polygon is removed entirely; the
+    // outer ring always keeps its minimum.
+    return ring === 0 ? mask : deleteMaskHole(mask, ring);
+  }
 
   const newPoints = points.filter((_, idx) => idx !== pointIndex);
 
@@ -107,8 +148,87 @@ export function deleteMaskPoint(
     return mask;
   }
 
+  return setMaskRing(mask, ring, newPoints);
+}
+
+export function deleteMaskHole(mask: MaskPolygon, ring: number): MaskPolygon {
+  if (ring <= 0 || !mask.holes || ring - 1 >= mask.holes.length) return mask;
+  const holes = mask.holes.filter((_, idx) => idx !== ring - 1);
+  if (!holes.length) {
+    const { holes: _removed, ...rest } = mask;
+    return rest;
+  }
+  return { ...mask, holes };
+}
+
+export function addMaskHole(mask: MaskPolygon, size = 40): MaskPolygon {
+  if (mask.points.length < MIN_POINTS) return mask;
+  const xs = mask.points.map((p) => p.x);
+  const ys = mask.points.map((p) => p.y);
+  const center = {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+  const half = size / 2;
+  const hole = [
+    { x: center.x, y: center.y - half },
+    { x: center.x + half, y: center.y + half },
+    { x: center.x - half, y: center.y + half },
+  ];
+  return { ...mask, holes: [...(mask.holes ?? []), hole] };
+}
+
+export function findMaskAtPoint(masks: MaskPolygon[], point: Point) {
+  for (let i = masks.length - 1; i >= 0; i -= 1) {
+    if (isPointInsideMask(point, masks[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Segments and connectors remember which outline they belong to; items from
+// older scenes (or whose outline was removed) fall back to the outline that
+// contains their midpoint, then to the first outline.
+export function resolveMaskId(
+  masks: MaskPolygon[],
+  item: LineSegment
+): string | null {
+  if (!masks.length) return null;
+  if (item.maskId && masks.some((mask) => mask.id === item.maskId)) {
+    return item.maskId;
+  }
+  const midpoint = {
+    x: (item.start.x + item.end.x) / 2,
+    y: (item.start.y + item.end.y) / 2,
+  };
+  const index = findMaskAtPoint(masks, midpoint);
+  return masks[index === -1 ? 0 : index].id;
+}
+
+export function groupByMask<T extends LineSegment>(
+  masks: MaskPolygon[],
+  items: T[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  masks.forEach((mask) => grouped.set(mask.id, []));
+  items.forEach((item) => {
+    const maskId = resolveMaskId(masks, item);
+    if (maskId) {
+      grouped.get(maskId)?.push(item);
+    }
+  });
+  return grouped;
+}
+
+export function createDefaultMask(center: Point, size = 120): MaskPolygon {
+  const half = size / 2;
   return {
-    ...mask,
-    points: newPoints,
+    id: crypto.randomUUID(),
+    points: [
+      { x: center.x, y: center.y - half },
+      { x: center.x + half, y: center.y + half },
+      { x: center.x - half, y: center.y + half },
+    ],
   };
 }
@@ -0,0 +1,214 @@
+import type { JumpRing, LineSegment, Material } from "../types";
+
+// Jump rings sold for crafts: 18 gauge (1 mm) wire, 10 mm across.
+const CRAFT_JUMP_RING = { wireDiameter: 1, ringInnerDiameter: 8 };
+
+export const MATERIALS: Material[] = [
+  {
+    name: "Birch plywood 3 mm",
+    thickness: 3,
+    density: 0.68,
+    ...CRAFT_JUMP_RING,
+  },
+  {
+    name: "Birch plywood 6 mm",
+    thickness: 6,
+    density: 0.68,
+    ...CRAFT_JUMP_RING,
+  },
+  {
+    name: "Basswood plywood 3 mm",
+    thickness: 3,
+    density: 0.5,
+    ...CRAFT_JUMP_RING,
+  },
+  {
+    name: "Cast acrylic 3 mm",
+    thickness: 3,
+    density: 1.19,
+    ...CRAFT_JUMP_RING,
+  },
+  {
+    name: "Cast acrylic 6 mm",
+    thickness: 6,
+    density: 1.19,
+    ...CRAFT_JUMP_RING,
+  },
+];
+
+export const DEFAULT_MATERIAL = MATERIALS[0];
+
+// Rings connectors can use instead of the material's. Share links store a
+// ring as its index here, so only ever append.
+export const RING_CATALOG: JumpRing[] = [
+  {
+    id: "20ga-4",
+    name: "20 ga, 4 mm inside",
+    wireDiameter: 0.8,
+    innerDiameter: 4,
+  },
+  {
+    id: "20ga-6",
+    name: "20 ga, 6 mm inside",
+    wireDiameter: 0.8,
+    innerDiameter: 6,
+  },
+  {
+    id: "18ga-6",
+    name: "18 ga, 6 mm inside",
+    wireDiameter: 1,
+    innerDiameter: 6,
+  },
+  {
+    id: "18ga-8",
+    name: "18 ga, 8 mm inside",
+    wireDiameter: 1,
+    innerDiameter: 8,
+  },
+  {
+    id: "18ga-10",
+    name: "18 ga, 10 mm inside",
+    wireDiameter: 1,
+    innerDiameter: 10,
+  },
+  {
+    id: "16ga-10",
+    name: "16 ga, 10 mm inside",
+    wireDiameter: 1.3,
+    innerDiameter: 10,
+  },
+  {
+    id: "16ga-12",
+    name: "16 ga, 12 mm inside",
+    wireDiameter: 1.3,
+    innerDiameter: 12,
+  },
+];
+
+type RingSize = Pick<JumpRing, "wireDiameter" | "innerDiameter">;
+
+// The rings connectors without a ring of their own use.
+export function materialRing(material: Material): RingSize {
+  return {
+    wireDiameter: material.wireDiameter,
+    innerDiameter: material.ringInnerDiameter,
+  };
+}
+
+// The name a profile gets once any of its values is edited.
+export const CUSTOM_MATERIAL_NAME = "Custom";
+
+// Matter's mass units are arbitrary; pieces are weighed by their areal
+// density, scaled so 3 mm birch plywood keeps the density the solver was
+// tuned with.
+const BODY_DENSITY_PER_G_CM2 = 0.002 / (0.68 * 0.3);
+
+/**
+ * Matter density (mass per px²) for pieces cut from `material`.
+ */
+export function bodyDensity(material: Material) {
+  return BODY_DENSITY_PER_G_CM2 * material.density * (material.thickness / 10);
+}
+
+// Seen edge on, in the plane of the ring, the stock is a strip `thickness`
+// wide that the ring's inner circle has to clear, so a taut ring reaches
+// only as far as the chord across it.
+function tautReach(material: Material, ring: RingSize) {
+  const radius = ring.innerDiameter / 2;
+  return Math.sqrt(
+    Math.max(radius * radius - (material.thickness / 2) ** 2, 0)
+  );
+}
+
+/**
+ * Distance in mm between the centres of the two holes a ring joins when it
+ * is pulled taut: the inside of the ring rests against the near side of
+ * each hole, so this is what connectors are drawn at.
+ */
+export function connectorLengthFor(
+  material: Material,
+  holeDiameter: number,
+  ring: RingSize = materialRing(material)
+) {
+  return 2 * tautReach(material, ring) + holeDiameter;
+}
+
+/**
+ * The smallest hole in mm the ring's wire passes through: across the stock
+ * it curves from the taut reach out to the ring's outside.
+ */
+export function minHoleDiameterFor(
+  material: Material,
+  ring: RingSize = materialRing(material)
+) {
+  return ring.innerDiameter / 2 + ring.wireDiameter - tautReach(material, ring);
+}
+
+/**
+ * How much closer in mm a ring lets its holes come when the pieces push
+ * together instead of pulling apart: the outside of the ring then rests
+ * against the far side of each hole, which stock thickness does not affect.
+ * Compression connectors cut their holes this much closer. Zero once the
+ * holes are too small for the ring to move in them at all.
+ */
+export function compressionOffsetFor(
+  material: Material,
+  holeDiameter: number,
+  ring: RingSize = materialRing(material)
+) {
+  return Math.max(2 * (holeDiameter - minHoleDiameterFor(material, ring)), 0);
+}
+
+// Everything a connector's ring decides about it, in mm.
+export interface ConnectorFit {
+  ring: RingSize;
+  length: number;
+  holeDiameter: number;
+  compressionOffset: number;
+}
+
+/**
+ * Size a connector for its ring. The hole diameter setting is for the
+ * material's rings; a catalog ring gets holes with the same play around its
+ * own wire, and never too small for it to pass through the stock. A
+ * connector's own length or hole diameter wins over both.
+ */
+export function connectorFit(
+  connector: LineSegment,
+  material: Material,
+  holeDiameter: number
+): ConnectorFit {
+  const catalogRing = RING_CATALOG.find((ring) => ring.id === connector.ring);
+  const ring = catalogRing ?? materialRing(material);
+  const hole =
+    connector.holeDiameter ??
+    (catalogRing
+      ? Math.max(
+          holeDiameter - material.wireDiameter + ring.wireDiameter,
+          minHoleDiameterFor(material, ring)
+        )
+      : holeDiameter);
+  return {
+    ring,
+    length: connector.length ?? connectorLengthFor(material, hole, ring),
+    holeDiameter: hole,
+    compressionOffset: compressionOffsetFor(material, hole, ring),
+  };
+}
+
+/**
+ * A profile of `base` stock whose rings hold connectors at `connectorLength`,
+ * for scenes saved before materials, when the length was set by hand.
+ */
+export function materialForConnectorLength(
+  connectorLength: number,
+  holeDiameter: number,
+  base: Material = DEFAULT_MATERIAL
+): Material {
+  const reach = Math.max(connectorLength - holeDiameter, 0) / 2;
+  return {
+    ...base,
+    name: CUSTOM_MATERIAL_NAME,
+    ringInnerDiameter: 2 * Math.hypot(reach, base.thickness / 2),
+  };
+}
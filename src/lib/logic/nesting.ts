@@ -0,0 +1,204 @@
+import type { CutLayout, LineSegment, Point, Polygon } from "../types";
+import { isPointInsideMask } from "./segments";
+import { mmToPx } from "./units";
+
+export const DEFAULT_CUT_LAYOUT: CutLayout = {
+  view: "assembled",
+  sheetWidth: 300,
+  sheetHeight: 200,
+  spacing: 2,
+  rotate: true,
+};
+
+// Orientations tried per piece when rotation is allowed; 15° finds a snug
+// bounding box for the rounded shapes pieces usually have.
+const ROTATION_STEP_DEG = 15;
+// Candidate points per side when looking for room for a piece number.
+const NUMBER_GRID = 16;
+
+// Where a piece goes: rotated by `angle` degrees about the scene origin,
+// then moved by (x, y) px onto sheet `sheet`.
+export interface PiecePlacement {
+  piece: number;
+  sheet: number;
+  angle: number;
+  x: number;
+  y: number;
+}
+
+export interface Nesting {
+  sheetCount: number;
+  placements: PiecePlacement[];
+  // Pieces that do not fit on an empty sheet in any orientation.
+  unplaced: number[];
+}
+
+function rotatePoint(point: Point, angle: number): Point {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: point.x * cos - point.y * sin,
+    y: point.x * sin + point.y * cos,
+  };
+}
+
+export function placePoint(placement: PiecePlacement, point: Point): Point {
+  const rotated = rotatePoint(point, placement.angle);
+  return { x: rotated.x + placement.x, y: rotated.y + placement.y };
+}
+
+function rotatedBounds(points: Point[], angle: number) {
+  const rotated = points.map((point) => rotatePoint(point, angle));
+  const xs = rotated.map((point) => point.x);
+  const ys = rotated.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    minX,
+    minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+type Shelf = { top: number; height: number; right: number };
+
+/**
+ * Pack pieces onto as few sheets as a shelf packer manages: each piece is
+ * turned to its smallest bounding box (when rotation is allowed), laid flat,
+ * and the tallest go first, filling rows left to right and top to bottom.
+ * Boxes are kept `spacing` apart and away from the sheet edge, which also
+ * absorbs the slight bulge of the smoothed outlines past their vertices.
+ */
+export function nestPieces(pieces: Polygon[], layout: CutLayout): Nesting {
+  const spacing = mmToPx(layout.spacing);
+  const usableWidth = mmToPx(layout.sheetWidth) - 2 * spacing;
+  const usableHeight = mmToPx(layout.sheetHeight) - 2 * spacing;
+  const angles = layout.rotate
+    ? Array.from(
+        { length: 180 / ROTATION_STEP_DEG },
+        (_, i) => i * ROTATION_STEP_DEG
+      )
+    : [0];
+  const fits = (box: { width: number; height: number }) =>
+    box.width <= usableWidth && box.height <= usableHeight;
+
+  const unplaced: number[] = [];
+  const oriented = pieces.flatMap((piece, index) => {
+    if (piece.points.length < 3) return [];
+    const tightest = angles
+      .map((angle) => ({ angle, ...rotatedBounds(piece.points, angle) }))
+      .reduce((best, next) =>
+        next.width * next.height < best.width * best.height ? next : best
+      );
+    const turned = {
+      angle: tightest.angle + 90,
+      ...rotatedBounds(piece.points, tightest.angle + 90),
+    };
+    const options = layout.rotate
+      ? tightest.width >= tightest.height
+        ? [tightest, turned]
+        : [turned, tightest]
+      : [tightest];
+    const choice = options.find(fits);
+    if (!choice) {
+      unplaced.push(index);
+      return [];
+    }
+    return [{ index, ...choice }];
+  });
+
+  const sheets: Shelf[][] = [];
+  const placeOnSheet = (shelves: Shelf[], width: number, height: number) => {
+    const shelf = shelves.find(
+      (item) => item.right + width <= usableWidth && height <= item.height
+    );
+    if (shelf) {
+      const left = shelf.right;
+      shelf.right += width + spacing;
+      return { left, top: shelf.top };
+    }
+    const last = shelves[shelves.length - 1];
+    const top = last ? last.top + last.height + spacing : 0;
+    if (top + height > usableHeight) return null;
+    shelves.push({ top, height, right: width + spacing });
+    return { left: 0, top };
+  };
+
+  const placements = oriented
+    .sort((a, b) => b.height - a.height)
+    .map((item): PiecePlacement => {
+      // Every piece here fits an empty sheet, so this ends.
+      let sheet = 0;
+      let spot = null;
+      while (!spot) {
+        if (sheet === sheets.length) sheets.push([]);
+        spot = placeOnSheet(sheets[sheet], item.width, item.height);
+        if (!spot) sheet += 1;
+      }
+      return {
+        piece: item.index,
+        sheet,
+        angle: item.angle % 360,
+        x: spacing + spot.left - item.minX,
+        y: spacing + spot.top - item.minY,
+      };
+    })
+    .sort((a, b) => a.piece - b.piece);
+
+  return { sheetCount: sheets.length, placements, unplaced };
+}
+
+function distanceToSegment(point: Point, start: Point, end: Point) {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq
+    ? Math.max(
+        0,
+        Math.min(
+          1,
+          ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq
+        )
+      )
+    : 0;
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+/**
+ * A point inside `piece` as far as possible from its edges and from
+ * `obstacles` (its label), for engraving the piece number.
+ */
+export function pieceNumberPoint(
+  piece: Polygon,
+  obstacles: LineSegment[]
+): Point {
+  const box = rotatedBounds(piece.points, 0);
+  const edges = [piece.points, ...(piece.holes ?? [])].flatMap((ring) =>
+    ring.map((point, i) => ({
+      start: point,
+      end: ring[(i + 1) % ring.length],
+    }))
+  );
+  let best = {
+    point: { x: box.minX + box.width / 2, y: box.minY + box.height / 2 },
+    clearance: -Infinity,
+  };
+  for (let i = 0; i < NUMBER_GRID; i += 1) {
+    for (let j = 0; j < NUMBER_GRID; j += 1) {
+      const point = {
+        x: box.minX + ((i + 0.5) / NUMBER_GRID) * box.width,
+        y: box.minY + ((j + 0.5) / NUMBER_GRID) * box.height,
+      };
+      if (!isPointInsideMask(point, piece)) continue;
+      const clearance = Math.min(
+        ...[...edges, ...obstacles].map(({ start, end }) =>
+          distanceToSegment(point, start, end)
+        )
+      );
+      if (clearance > best.clearance) best = { point, clearance };
+    }
+  }
+  return best.point;
+}
@@ -0,0 +1,180 @@
+import { diff, union } from "martinez-polygon-clipping";
+
+import type { Point, Polygon } from "../types";
+
+// martinez-polygon-clipping geometry: a ring is a closed list of [x, y]
+// pairs, a polygon is an outer ring followed by its holes.
+export type Ring = number[][];
+export type PolygonGeometry = Ring[];
+export type MultiPolygonGeometry = PolygonGeometry[];
+
+const CIRCLE_SEGMENTS = 16;
+const COLLINEAR_EPSILON = 1e-3;
+
+export function toMultiPolygon(
+  geometry: number[][][] | number[][][][] | null | undefined
+): MultiPolygonGeometry {
+  if (!geometry || !geometry.length || !geometry[0]?.length) return [];
+  return Array.isArray(geometry[0][0][0])
+    ? (geometry as MultiPolygonGeometry)
+    : [geometry as PolygonGeometry];
+}
+
+function closeRing(points: Point[]): Ring {
+  const ring = points.map((p) => [p.x, p.y]);
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    ring.push([first[0], first[1]]);
+  }
+  return ring;
+}
+
+function openRing(ring: Ring): Point[] {
+  const points = ring.map(([x, y]) => ({ x, y }));
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.x === last.x && first.y === last.y) {
+    points.pop();
+  }
+  return points;
+}
+
+export function polygonToGeometry(
+  polygon: Pick<Polygon, "points" | "holes">
+): PolygonGeometry {
+  return [
+    closeRing(polygon.points),
+    ...(polygon.holes ?? [])
+      .filter((hole) => hole.length >= 3)
+      .map((hole) => closeRing(hole)),
+  ];
+}
+
+export function geometryToPolygons(
+  geometry: MultiPolygonGeometry,
+  baseId: string
+): Polygon[] {
+  return geometry
+    .map((poly, index) => {
+      const [outer, ...holes] = poly.map(openRing);
+      const validHoles = holes.filter((hole) => hole.length >= 3);
+      return {
+        id: `${baseId}-${index}`,
+        points: outer ?? [],
+        ...(validHoles.length ? { holes: validHoles } : {}),
+      };
+    })
+    .filter((polygon) => polygon.points.length >= 3);
+}
+
+// Drop repeated and (nearly) collinear vertices; Voronoi cell unions carry
+// many of them and every vertex costs two shapes in the offset band.
+export function simplifyRing(points: Point[]): Point[] {
+  const result = points.slice();
+  let changed = true;
+  while (changed && result.length > 3) {
+    changed = false;
+    for (let i = 0; i < result.length && result.length > 3; i += 1) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const curr = result[i];
+      const next = result[(i + 1) % result.length];
+      const cross =
+        (curr.x - prev.x) * (next.y - curr.y) -
+        (curr.y - prev.y) * (next.x - curr.x);
+      const span = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+      if (Math.abs(cross) / span < COLLINEAR_EPSILON) {
+        result.splice(i, 1);
+        changed = true;
+        i -= 1;
+      }
+    }
+  }
+  return result;
+}
+
+function circleRing(center: number[], radius: number): Ring {
+  const ring: Ring = [];
+  for (let i = 0; i < CIRCLE_SEGMENTS; i += 1) {
+    const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    ring.push([
+      center[0] + Math.cos(angle) * radius,
+      center[1] + Math.sin(angle) * radius,
+    ]);
+  }
+  ring.push(ring[0].slice());
+  return ring;
+}
+
+function edgeRing(a: number[], b: number[], radius: number): Ring | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length = Math.hypot(dx, dy);
+  if (!length) return null;
+  const nx = (-dy / length) * radius;
+  const ny = (dx / length) * radius;
+  return [
+    [a[0] + nx, a[1] + ny],
+    [b[0] + nx, b[1] + ny],
+    [b[0] - nx, b[1] - ny],
+    [a[0] - nx, a[1] - ny],
+    [a[0] + nx, a[1] + ny],
+  ];
+}
+
+function unionAll(shapes: MultiPolygonGeometry): MultiPolygonGeometry {
+  // Pairwise reduction keeps the intermediate geometries small.
+  let layer = shapes.map((shape) => [shape]);
+  while (layer.length > 1) {
+    const next: MultiPolygonGeometry[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      if (i + 1 >= layer.length) {
+        next.push(layer[i]);
+      } else {
+        next.push(toMultiPolygon(union(layer[i], layer[i + 1])));
+      }
+    }
+    layer = next;
+  }
+  return layer[0] ?? [];
+}
+
+// Every point within `radius` of the boundary of `geometry`.
+function boundaryBand(
+  geometry: MultiPolygonGeometry,
+  radius: number
+): MultiPolygonGeometry {
+  const shapes: MultiPolygonGeometry = [];
+  geometry.forEach((poly) =>
+    poly.forEach((ring) => {
+      for (let i = 0; i < ring.length - 1; i += 1) {
+        const edge = edgeRing(ring[i], ring[i + 1], radius);
+        if (edge) shapes.push([edge]);
+        shapes.push([circleRing(ring[i], radius)]);
+      }
+    })
+  );
+  return unionAll(shapes);
+}
+
+/**
+ * Offset a (multi)polygon by `delta` pixels: positive grows it with round
+ * joins, negative shrinks it.
+ */
+export function offsetGeometry(
+  geometry: MultiPolygonGeometry,
+  delta: number
+): MultiPolygonGeometry {
+  if (!geometry.length || delta === 0) return geometry;
+  const simplified = geometry.map((poly) =>
+    poly
+      .map((ring) => simplifyRing(openRing(ring)))
+      .filter((points) => points.length >= 3)
+      .map(closeRing)
+  );
+  const band = boundaryBand(simplified, Math.abs(delta));
+  if (!band.length) return simplified;
+  return toMultiPolygon(
+    delta > 0 ? union(simplified, band) : diff(simplified, band)
+  );
+}
@@ -0,0 +1,458 @@
+// QR code encoder (ISO/IEC 18004) for share links: byte mode, versions 1 to
+// 40, with the usual mask selection. Follows the structure of Project Nayuki's
+// reference implementation.
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+const ECC_LEVELS: QrErrorCorrection[] = ["L", "M", "Q", "H"];
+// The two format bits for each level, in ECC_LEVELS order.
+const FORMAT_BITS = [1, 0, 3, 2];
+
+// Indexed by level, then version; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+];
+const ECC_BLOCKS = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+// Light modules a reader needs around the code.
+export const QR_QUIET_ZONE = 4;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and error correction once the function patterns are
+// placed.
+function rawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: number) {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version]
+  );
+}
+
+function alignmentPositions(version: number, size: number) {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+// Multiplication in GF(2^8) over the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+}
+
+// Split the data into blocks, append each block's error correction, and
+// interleave them.
+function addErrorCorrection(data: number[], version: number, level: number) {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i += 1) {
+    const block = data.slice(
+      offset,
+      offset + shortLength - eccLength + (i < shortBlocks ? 0 : 1)
+    );
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a padding byte that is not transmitted.
+      if (i !== shortLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+// The standard mask penalty: long runs, 2x2 blocks, finder look-alikes and
+// an unbalanced dark/light ratio.
+function penalty(modules: boolean[][]) {
+  const size = modules.length;
+  let result = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])),
+  ];
+  lines.forEach((line) => {
+    let run = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+        continue;
+      }
+      if (run >= 5) result += 3 + run - 5;
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i += 1) {
+      if (
+        FINDER_LIKE.some((pattern) =>
+          pattern.every((dark, k) => line[i + k] === dark)
+        )
+      ) {
+        result += 40;
+      }
+    }
+  });
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+}
+
+// The smallest version whose data capacity holds `length` bytes in byte
+// mode, or null when none does.
+function versionFor(length: number, level: number) {
+  for (let version = MIN_VERSION; version <= MAX_VERSION; version += 1) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (
+      length < 2 ** countBits &&
+      4 + countBits + length * 8 <= dataCodewords(version, level) * 8
+    ) {
+      return version;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether `text` is short enough for a QR code, without encoding it.
+ */
+export function qrCodeFits(
+  text: string,
+  errorCorrection: QrErrorCorrection = "M"
+) {
+  const level = ECC_LEVELS.indexOf(errorCorrection);
+  return versionFor(new TextEncoder().encode(text).length, level) !== null;
+}
+
+/**
+ * Encode text as a QR code in the smallest version that fits. Returns the
+ * modules row by row (true is dark), without the quiet zone, or null when the
+ * text is too long for a QR code.
+ */
+export function encodeQrCode(
+  text: string,
+  errorCorrection: QrErrorCorrection = "M"
+): boolean[][] | null {
+  const level = ECC_LEVELS.indexOf(errorCorrection);
+  const bytes = new TextEncoder().encode(text);
+
+  const version = versionFor(bytes.length, level);
+  if (version === null) return null;
+
+  // Byte mode segment, terminator and padding up to the data capacity.
+  const bits: boolean[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push(getBit(value, i));
+  };
+  const capacity = dataCodewords(version, level) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | Number(bit), 0)
+    );
+  }
+  const codewords = addErrorCorrection(data, version, level);
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const reserved = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  const drawFormatBits = (mask: number) => {
+    const value = (FORMAT_BITS[level] << 3) | mask;
+    let rem = value;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const format = ((value << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, getBit(format, i));
+    setFunction(8, 7, getBit(format, 6));
+    setFunction(8, 8, getBit(format, 7));
+    setFunction(7, 8, getBit(format, 8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, getBit(format, i));
+    for (let i = 0; i < 8; i += 1) {
+      setFunction(size - 1 - i, 8, getBit(format, i));
+    }
+    for (let i = 8; i < 15; i += 1) {
+      setFunction(8, size - 15 + i, getBit(format, i));
+    }
+    setFunction(8, size - 8, true);
+  };
+
+  // Timing patterns, finders, alignment patterns and version information.
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const ring = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, ring !== 2 && ring !== 4);
+      }
+    }
+  });
+  const alignments = alignmentPositions(version, size);
+  const last = alignments.length - 1;
+  alignments.forEach((cy, i) => {
+    alignments.forEach((cx, j) => {
+      // Skip the three corners taken by finders.
+      if ((i === 0 && j === 0) || (i === 0 && j === last)) return;
+      if (i === last && j === 0) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(
+            cx + dx,
+            cy + dy,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+          );
+        }
+      }
+    });
+  });
+  drawFormatBits(0);
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const dark = getBit(versionBits, i);
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the right.
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert += 1) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        if (reserved[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+        bit += 1;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) {
+          modules[y][x] = !modules[y][x];
+        }
+      }
+    }
+  };
+  let bestMask = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  MASKS.forEach((_, mask) => {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const score = penalty(modules);
+    if (score < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = score;
+    }
+    applyMask(mask);
+  });
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+
+  return modules;
+}
+
+/**
+ * SVG path data filling the dark modules, with the code's top-left corner at
+ * (x, y); one rectangle per horizontal run of dark modules.
+ */
+export function qrCodePath(
+  modules: boolean[][],
+  x: number,
+  y: number,
+  moduleSize: number
+) {
+  const format = (value: number) => Number(value.toFixed(3));
+  const parts: string[] = [];
+  modules.forEach((row, rowIndex) => {
+    for (let start = 0; start < row.length; start += 1) {
+      if (!row[start]) continue;
+      let end = start;
+      while (end + 1 < row.length && row[end + 1]) end += 1;
+      parts.push(
+        `M${format(x + start * moduleSize)} ${format(
+          y + rowIndex * moduleSize
+        )}h${format((end - start + 1) * moduleSize)}v${format(
+          moduleSize
+        )}h${format(-(end - start + 1) * moduleSize)}z`
+      );
+      start = end;
+    }
+  });
+  return parts.join("");
+}
+
+/**
+ * A standalone black-on-white SVG of the code, quiet zone included, with
+ * modules `moduleSizeMm` across.
+ */
+export function qrCodeSvg(modules: boolean[][], moduleSizeMm = 1) {
+  const side = Number(
+    ((modules.length + QR_QUIET_ZONE * 2) * moduleSizeMm).toFixed(3)
+  );
+  const margin = QR_QUIET_ZONE * moduleSizeMm;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${side}mm" height="${side}mm" viewBox="0 0 ${side} ${side}">
+  <rect width="${side}" height="${side}" fill="#fff" />
+  <path d="${qrCodePath(modules, margin, margin, moduleSizeMm)}" fill="#000" />
+</svg>`;
+}
@@ -0,0 +1,40 @@
+import type { Point, Polygon, QrEngraving } from "../types";
+import { isPointInsideMask } from "./segments";
+
+export const DEFAULT_QR_SIZE_MM = 30;
+const HIT_RADIUS = 10;
+
+/**
+ * Centre a QR code on the largest piece, where it has the most room.
+ */
+export function createDefaultQrEngraving(
+  pieces: Polygon[]
+): QrEngraving | null {
+  let best: { piece: Polygon; area: number } | null = null;
+  for (const piece of pieces) {
+    if (piece.points.length < 3) continue;
+    const xs = piece.points.map((p) => p.x);
+    const ys = piece.points.map((p) => p.y);
+    const area =
+      (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+    if (!best || area > best.area) best = { piece, area };
+  }
+  if (!best) return null;
+  const { points } = best.piece;
+  const point = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+  if (!isPointInsideMask(point, best.piece)) return null;
+  return { point, size: DEFAULT_QR_SIZE_MM };
+}
+
+export function hitTestQrEngraving(
+  qr: QrEngraving | null,
+  point: Point,
+  radius = HIT_RADIUS
+) {
+  return Boolean(
+    qr && Math.hypot(point.x - qr.point.x, point.y - qr.point.y) <= radius
+  );
+}
@@ -0,0 +1,409 @@
+import { LABEL_ALIGNS, LABEL_FONT_FAMILIES } from "./labelText";
+import { RING_CATALOG } from "./materials";
+import type { SerializedScene } from "./sceneSerialization";
+
+// Compact binary form of a SerializedScene for share links. After the format
+// byte everything is unsigned LEB128 varints (signed values zigzag encoded):
+// settings in hundredths, coordinates quantized to COORD_STEP px and stored as
+// deltas from the previous point written, and per element a flag byte saying
+// which optional fields follow. Bump BINARY_FORMAT when the layout changes and
+// keep decoding the old one.
+//
+// Format 2 adds the kerf after the other settings. Format 3 drops the
+// connector length from them and adds the material after the canvas.
+export const BINARY_FORMAT = 3;
+
+// 0.1 px is 0.02 mm, well below what a laser cutter resolves.
+const COORD_STEP = 0.1;
+const SETTING_STEP = 0.01;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const HAS_ID = 1;
+const UUID_ID = 2;
+const HAS_META = 4;
+const HAS_MASK = 8;
+// Segments only.
+const HAS_TEXT = 16;
+const HAS_STYLE = 32;
+const BOLD = 64;
+const HAS_OFFSET = 128;
+// Connectors only.
+const COMPRESSION = 16;
+const ANCHOR = 32;
+const HAS_RING = 64;
+const HAS_LENGTH = 128;
+const HAS_HOLE = 256;
+
+const PIPELINES: SerializedScene["noise"]["pipeline"][] = ["raster", "vector"];
+
+type Identity = { id?: string; meta?: Record<string, unknown> };
+type Coord = { x: number; y: number };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function createWriter() {
+  const bytes: number[] = [];
+  let cursor = { x: 0, y: 0 };
+
+  const uint = (value: number) => {
+    let rest = Math.max(0, Math.floor(value));
+    while (rest >= 0x80) {
+      bytes.push(rest % 0x80 | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    bytes.push(rest);
+  };
+  const int = (value: number) => uint(value < 0 ? -2 * value - 1 : 2 * value);
+  const quantized = (value: number, step: number) =>
+    int(Math.round(value / step));
+  const raw = (chunk: Uint8Array) => {
+    uint(chunk.length);
+    chunk.forEach((byte) => bytes.push(byte));
+  };
+  const point = (value: Coord) => {
+    const x = Math.round(value.x / COORD_STEP);
+    const y = Math.round(value.y / COORD_STEP);
+    int(x - cursor.x);
+    int(y - cursor.y);
+    cursor = { x, y };
+  };
+  const ring = (points: Coord[]) => {
+    uint(points.length);
+    points.forEach(point);
+  };
+  const identityFlags = (item: Identity) =>
+    (item.id ? HAS_ID : 0) |
+    (item.id && UUID_PATTERN.test(item.id) ? UUID_ID : 0) |
+    (item.meta ? HAS_META : 0);
+  const identity = (item: Identity, flags: number) => {
+    if (flags & UUID_ID) {
+      const hex = item.id!.replace(/-/g, "");
+      for (let i = 0; i < 32; i += 2) {
+        bytes.push(parseInt(hex.slice(i, i + 2), 16));
+      }
+    } else if (flags & HAS_ID) {
+      raw(textEncoder.encode(item.id));
+    }
+    if (flags & HAS_META) raw(textEncoder.encode(JSON.stringify(item.meta)));
+  };
+
+  return {
+    uint,
+    int,
+    quantized,
+    raw,
+    point,
+    ring,
+    identityFlags,
+    identity,
+    finish: () => Uint8Array.from(bytes),
+  };
+}
+
+function createReader(bytes: Uint8Array) {
+  let offset = 0;
+  let cursor = { x: 0, y: 0 };
+
+  const byte = () => {
+    if (offset >= bytes.length) throw new Error("Scene data is truncated");
+    return bytes[offset++];
+  };
+  const uint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const next = byte();
+      value += (next & 0x7f) * scale;
+      if (next < 0x80) return value;
+      scale *= 0x80;
+    }
+  };
+  const int = () => {
+    const value = uint();
+    return value % 2 ? -(value + 1) / 2 : value / 2;
+  };
+  // Every listed item takes at least a byte, which bounds corrupt counts.
+  const count = () => {
+    const value = uint();
+    if (value > bytes.length - offset) {
+      throw new Error("Scene data is truncated");
+    }
+    return value;
+  };
+  const quantized = (step: number) => Math.round(int() * step * 100) / 100;
+  const raw = () => {
+    const length = uint();
+    if (offset + length > bytes.length) {
+      throw new Error("Scene data is truncated");
+    }
+    offset += length;
+    return bytes.subarray(offset - length, offset);
+  };
+  const point = () => {
+    cursor = { x: cursor.x + int(), y: cursor.y + int() };
+    return {
+      x: Math.round(cursor.x * COORD_STEP * 100) / 100,
+      y: Math.round(cursor.y * COORD_STEP * 100) / 100,
+    };
+  };
+  const ring = () => Array.from({ length: count() }, point);
+  const identity = (flags: number): Identity => {
+    const result: Identity = {};
+    if (flags & UUID_ID) {
+      const hex = Array.from({ length: 16 }, () =>
+        byte().toString(16).padStart(2, "0")
+      ).join("");
+      result.id = [
+        hex.slice(0, 8),
+        hex.slice(8, 12),
+        hex.slice(12, 16),
+        hex.slice(16, 20),
+        hex.slice(20),
+      ].join("-");
+    } else if (flags & HAS_ID) {
+      result.id = textDecoder.decode(raw());
+    }
+    if (flags & HAS_META) result.meta = JSON.parse(textDecoder.decode(raw()));
+    return result;
+  };
+
+  return { byte, uint, count, int, quantized, raw, point, ring, identity };
+}
+
+export function encodeSceneBinary(scene: SerializedScene): Uint8Array {
+  const out = createWriter();
+  out.uint(BINARY_FORMAT);
+  out.uint(scene.version);
+
+  const { noise, canvas } = scene;
+  [
+    noise.gap,
+    noise.round,
+    noise.noiseAmplitude,
+    noise.noiseSeed,
+    noise.holeDiameter,
+    noise.kerf,
+  ].forEach((value) => out.quantized(value, SETTING_STEP));
+  out.uint(Math.max(PIPELINES.indexOf(noise.pipeline), 0));
+  [canvas.width, canvas.height, canvas.resolution].forEach((value) =>
+    out.quantized(value, SETTING_STEP)
+  );
+  const { material } = scene;
+  out.raw(textEncoder.encode(material.name));
+  [
+    material.thickness,
+    material.density,
+    material.wireDiameter,
+    material.ringInnerDiameter,
+  ].forEach((value) => out.quantized(value, SETTING_STEP));
+
+  out.uint(scene.masks.length);
+  scene.masks.forEach((mask) => {
+    const flags = out.identityFlags(mask);
+    out.uint(flags);
+    out.identity(mask, flags);
+    out.ring(mask.points);
+    out.uint(mask.holes?.length ?? 0);
+    mask.holes?.forEach(out.ring);
+  });
+
+  out.uint(scene.segments.length);
+  scene.segments.forEach((segment) => {
+    const flags =
+      out.identityFlags(segment) |
+      (segment.mask !== undefined ? HAS_MASK : 0) |
+      (segment.text !== undefined ? HAS_TEXT : 0) |
+      (segment.fontFamily || segment.fontSize || segment.align
+        ? HAS_STYLE
+        : 0) |
+      (segment.bold ? BOLD : 0) |
+      (segment.offset ? HAS_OFFSET : 0);
+    out.uint(flags);
+    out.identity(segment, flags);
+    if (flags & HAS_MASK) out.uint(segment.mask!);
+    if (flags & HAS_TEXT) out.raw(textEncoder.encode(segment.text));
+    // Each style field is stored one up, so 0 means "default".
+    if (flags & HAS_STYLE) {
+      out.uint(LABEL_FONT_FAMILIES.indexOf(segment.fontFamily!) + 1);
+      out.uint(
+        segment.fontSize ? Math.round(segment.fontSize / SETTING_STEP) + 1 : 0
+      );
+      out.uint(LABEL_ALIGNS.indexOf(segment.align!) + 1);
+    }
+    if (flags & HAS_OFFSET) out.quantized(segment.offset!, SETTING_STEP);
+    out.point(segment.start);
+    out.point(segment.end);
+  });
+
+  out.uint(scene.connectors.length);
+  scene.connectors.forEach((connector) => {
+    // Rings this version does not know cannot be stored by index.
+    const ringIndex = RING_CATALOG.findIndex(
+      (ring) => ring.id === connector.ring
+    );
+    const flags =
+      out.identityFlags(connector) |
+      (connector.mask !== undefined ? HAS_MASK : 0) |
+      (connector.mode === "compression" ? COMPRESSION : 0) |
+      (connector.anchor ? ANCHOR : 0) |
+      (ringIndex !== -1 ? HAS_RING : 0) |
+      (connector.length !== undefined ? HAS_LENGTH : 0) |
+      (connector.holeDiameter !== undefined ? HAS_HOLE : 0);
+    out.uint(flags);
+    out.identity(connector, flags);
+    if (flags & HAS_MASK) out.uint(connector.mask!);
+    // Rings are stored by catalog index, one up so 0 means unknown.
+    if (flags & HAS_RING) out.uint(ringIndex + 1);
+    if (flags & HAS_LENGTH) out.quantized(connector.length!, SETTING_STEP);
+    if (flags & HAS_HOLE) out.quantized(connector.holeDiameter!, SETTING_STEP);
+    out.point(connector.start);
+    out.point(connector.end);
+  });
+
+  const { hanger } = scene;
+  out.uint(hanger ? (hanger.secondPoint ? 2 : 1) : 0);
+  if (hanger) {
+    out.point(hanger.point);
+    if (hanger.secondPoint) out.point(hanger.secondPoint);
+    out.quantized(hanger.ribbonLength, SETTING_STEP);
+  }
+
+  return out.finish();
+}
+
+/**
+ * Decode encodeSceneBinary output back into the scene JSON it was written
+ * from, in the shape of its scene version; the result still goes through
+ * deserializeScene. What the JSON cannot express, such as a ring from a newer
+ * catalog, is dropped and noted in `warnings`. Throws on data it cannot read.
+ */
+export function decodeSceneBinary(
+  bytes: Uint8Array,
+  warnings: string[] = []
+): unknown {
+  const input = createReader(bytes);
+  const format = input.uint();
+  if (format < 1 || format > BINARY_FORMAT) {
+    throw new Error(`Unknown scene data format ${format}`);
+  }
+  const version = input.uint();
+
+  const [gap, round, noiseAmplitude, noiseSeed] = Array.from(
+    { length: 4 },
+    () => input.quantized(SETTING_STEP)
+  );
+  const connectorLength =
+    format < 3 ? input.quantized(SETTING_STEP) : undefined;
+  const holeDiameter = input.quantized(SETTING_STEP);
+  const kerf = format >= 2 ? input.quantized(SETTING_STEP) : 0;
+  const pipeline = PIPELINES[input.uint()] ?? PIPELINES[0];
+  const [width, height, resolution] = Array.from({ length: 3 }, () =>
+    input.quantized(SETTING_STEP)
+  );
+  let material: SerializedScene["material"] | undefined;
+  if (format >= 3) {
+    const name = textDecoder.decode(input.raw());
+    const [thickness, density, wireDiameter, ringInnerDiameter] = Array.from(
+      { length: 4 },
+      () => input.quantized(SETTING_STEP)
+    );
+    material = { name, thickness, density, wireDiameter, ringInnerDiameter };
+  }
+
+  const masks = Array.from({ length: input.count() }, () => {
+    const identity = input.identity(input.uint());
+    const points = input.ring();
+    const holes = Array.from({ length: input.count() }, input.ring);
+    return { ...identity, points, ...(holes.length ? { holes } : {}) };
+  });
+
+  const segments = Array.from({ length: input.count() }, () => {
+    const flags = input.uint();
+    const identity = input.identity(flags);
+    const mask = flags & HAS_MASK ? input.uint() : undefined;
+    const text = flags & HAS_TEXT ? textDecoder.decode(input.raw()) : undefined;
+    const [fontFamily, fontSize, align] =
+      flags & HAS_STYLE
+        ? [
+            LABEL_FONT_FAMILIES[input.uint() - 1],
+            (input.uint() - 1) * SETTING_STEP,
+            LABEL_ALIGNS[input.uint() - 1],
+          ]
+        : [];
+    const offset =
+      flags & HAS_OFFSET ? input.quantized(SETTING_STEP) : undefined;
+    return {
+      ...identity,
+      start: input.point(),
+      end: input.point(),
+      ...(text !== undefined ? { text } : {}),
+      ...(fontFamily ? { fontFamily } : {}),
+      ...(fontSize && fontSize > 0
+        ? { fontSize: Math.round(fontSize * 100) / 100 }
+        : {}),
+      ...(align ? { align } : {}),
+      ...(offset ? { offset } : {}),
+      ...(flags & BOLD ? { bold: true } : {}),
+      ...(mask !== undefined ? { mask } : {}),
+    };
+  });
+
+  const connectors = Array.from({ length: input.count() }, (_, index) => {
+    const flags = input.uint();
+    const identity = input.identity(flags);
+    const mask = flags & HAS_MASK ? input.uint() : undefined;
+    const ring = flags & HAS_RING ? RING_CATALOG[input.uint() - 1] : undefined;
+    if (flags & HAS_RING && !ring) {
+      warnings.push(
+        `Connector ${index + 1} ring unknown; using the material's rings`
+      );
+    }
+    const length =
+      flags & HAS_LENGTH ? input.quantized(SETTING_STEP) : undefined;
+    const holeDiameter =
+      flags & HAS_HOLE ? input.quantized(SETTING_STEP) : undefined;
+    return {
+      ...identity,
+      start: input.point(),
+      end: input.point(),
+      ...(ring ? { ring: ring.id } : {}),
+      ...(length !== undefined ? { length } : {}),
+      ...(holeDiameter !== undefined ? { holeDiameter } : {}),
+      mode:
+        flags & COMPRESSION ? ("compression" as const) : ("tension" as const),
+      ...(flags & ANCHOR ? { anchor: true } : {}),
+      ...(mask !== undefined ? { mask } : {}),
+    };
+  });
+
+  const hangerPoints = input.uint();
+  const hanger = hangerPoints
+    ? {
+        point: input.point(),
+        ...(hangerPoints > 1 ? { secondPoint: input.point() } : {}),
+        ribbonLength: input.quantized(SETTING_STEP),
+      }
+    : undefined;
+
+  return {
+    version,
+    masks,
+    segments,
+    connectors,
+    ...(hanger ? { hanger } : {}),
+    noise: {
+      gap,
+      round,
+      noiseAmplitude,
+      noiseSeed,
+      ...(connectorLength !== undefined ? { connectorLength } : {}),
+      holeDiameter,
+      kerf,
+      pipeline,
+    },
+    ...(material ? { material } : {}),
+    canvas: { width, height, resolution },
+  };
+}
@@ -1,41 +1,157 @@
 import type {
+  Hanger,
+  LabelAlign,
+  LabelFontFamily,
   LineSegment,
   MaskPolygon,
+  Material,
+  PiecePipeline,
   Point,
   TreeDanglerState,
 } from "../types";
+import { DEFAULT_RIBBON_LENGTH_MM } from "./hanger";
+import {
+  LABEL_ALIGNS,
+  LABEL_FONT_FAMILIES,
+  type LabelStyle,
+} from "./labelText";
+import { findMaskAtPoint, resolveMaskId } from "./mask";
+import {
+  DEFAULT_MATERIAL,
+  materialForConnectorLength,
+  RING_CATALOG,
+} from "./materials";
+import { decodeSceneBinary, encodeSceneBinary } from "./sceneBinary";
+import {
+  DEFAULT_CANVAS_HEIGHT_MM,
+  DEFAULT_CANVAS_WIDTH_MM,
+  DEFAULT_RESOLUTION,
+} from "./units";
 
 type SerializedPoint = { x: number; y: number };
-type SerializedSegment = {
+// Ids survive a save and reload so anything keyed by them still lines up;
+// `meta` is free-form JSON kept as is. Both are absent in older files.
+type SerializedIdentity = {
+  id?: string;
+  meta?: Record<string, unknown>;
+};
+type SerializedMask = SerializedIdentity & {
+  points: SerializedPoint[];
+  holes?: SerializedPoint[][];
+};
+// `mask` is the index of the owning outline in `masks`.
+// `fontSize` and `offset` are in mm; absent style fields use the label
+// defaults.
+type SerializedSegment = SerializedIdentity & {
   start: SerializedPoint;
   end: SerializedPoint;
   text?: string;
+  fontFamily?: LabelFontFamily;
+  fontSize?: number;
+  align?: LabelAlign;
+  offset?: number;
+  bold?: boolean;
+  mask?: number;
 };
-type SerializedConnector = {
+// `ring` is the id of a RING_CATALOG ring; absent for the material's rings.
+// `length` and `holeDiameter` are overrides in mm.
+type SerializedConnector = SerializedIdentity & {
   start: SerializedPoint;
   end: SerializedPoint;
   mode?: "tension" | "compression";
+  anchor?: boolean;
+  ring?: string;
+  length?: number;
+  holeDiameter?: number;
+  mask?: number;
 };
+// `ribbonLength` is in mm.
+type SerializedHanger = {
+  point: SerializedPoint;
+  secondPoint?: SerializedPoint;
+  ribbonLength: number;
+};
+
+// Bump SCENE_VERSION whenever the shape below changes, and add a migration
+// from the previous version to `migrations`.
+export const SCENE_VERSION = 9;
 
 export type SerializedScene = {
-  mask: { points: SerializedPoint[] };
+  version: number;
+  masks: SerializedMask[];
   segments: SerializedSegment[];
   connectors: SerializedConnector[];
+  // Absent when the ornament hangs from anchor connectors only.
+  hanger?: SerializedHanger;
   noise: {
     gap: number;
     round: number;
     noiseAmplitude: number;
     noiseSeed: number;
-    connectorLength: number;
     holeDiameter: number;
+    // Width of material the laser burns away, in mm.
+    kerf: number;
+    pipeline: PiecePipeline;
+  };
+  // Stock and jump rings; connectors are drawn at the length these give.
+  material: Material;
+  // Canvas size in mm and raster pixels per mm.
+  canvas: {
+    width: number;
+    height: number;
+    resolution: number;
   };
 };
 
 export type NormalizedScene = {
-  mask: MaskPolygon;
+  masks: MaskPolygon[];
   segments: LineSegment[];
   connectors: LineSegment[];
+  hanger: Hanger | null;
   noise: SerializedScene["noise"];
+  material: Material;
+  canvas: SerializedScene["canvas"];
+};
+
+// What a new scene starts with, and what a file missing a setting falls back
+// to.
+export const DEFAULT_SCENE_SETTINGS: NormalizedScene["noise"] = {
+  gap: 1.2,
+  round: 2,
+  noiseAmplitude: 5,
+  noiseSeed: 0,
+  holeDiameter: 1.8,
+  kerf: 0,
+  pipeline: "raster",
+};
+
+// The state a scene is saved from; the rest of it is not part of the scene.
+export type SceneState = Pick<
+  TreeDanglerState,
+  | "masks"
+  | "segments"
+  | "connectors"
+  | "hanger"
+  | "gap"
+  | "round"
+  | "noiseAmplitude"
+  | "noiseSeed"
+  | "holeDiameter"
+  | "kerf"
+  | "pipeline"
+  | "material"
+  | "canvasWidth"
+  | "canvasHeight"
+  | "resolution"
+>;
+
+export type SceneLoadResult = {
+  // Null when nothing usable could be read; `warnings` says why.
+  scene: NormalizedScene | null;
+  // Format version the input was saved with.
+  version: number;
+  // Everything that was dropped or replaced by a default while loading.
+  warnings: string[];
 };
 
 const textDecoder = new TextDecoder();
@@ -63,15 +179,56 @@ const parsePoint = (input: unknown): Point | null => {
   };
 };
 
-export function serializeScene(state: TreeDanglerState): SerializedScene {
+const parseRing = (input: unknown[]): Point[] =>
+  input.map(parsePoint).filter((point): point is Point => Boolean(point));
+
+const serializeIdentity = (item: {
+  id: string;
+  meta?: Record<string, unknown>;
+}): SerializedIdentity => ({
+  id: item.id,
+  ...(item.meta && Object.keys(item.meta).length ? { meta: item.meta } : {}),
+});
+
+export function serializeScene(state: SceneState): SerializedScene {
+  const maskIndexOf = (item: LineSegment) => {
+    const maskId = resolveMaskId(state.masks, item);
+    return Math.max(
+      state.masks.findIndex((mask) => mask.id === maskId),
+      0
+    );
+  };
+
   return {
-    mask: {
-      points: state.mask.points.map(serializePoint),
-    },
+    version: SCENE_VERSION,
+    masks: state.masks.map((mask) => {
+      const base = {
+        ...serializeIdentity(mask),
+        points: mask.points.map(serializePoint),
+      };
+      if (mask.holes?.length) {
+        return {
+          ...base,
+          holes: mask.holes.map((hole) => hole.map(serializePoint)),
+        };
+      }
+      return base;
+    }),
     segments: state.segments.map((segment) => {
       const base = {
+        ...serializeIdentity(segment),
         start: serializePoint(segment.start),
         end: serializePoint(segment.end),
+        mask: maskIndexOf(segment),
+        ...(segment.fontFamily ? { fontFamily: segment.fontFamily } : {}),
+        ...(segment.fontSize !== undefined
+          ? { fontSize: roundToTwoDecimals(segment.fontSize) }
+          : {}),
+        ...(segment.align ? { align: segment.align } : {}),
+        ...(segment.offset
+          ? { offset: roundToTwoDecimals(segment.offset) }
+          : {}),
+        ...(segment.bold ? { bold: true } : {}),
       };
       if (segment.text !== undefined) {
         return { ...base, text: segment.text };
@@ -79,97 +236,539 @@ export function serializeScene(state: TreeDanglerState): SerializedScene {
       return base;
     }),
     connectors: state.connectors.map((connector) => ({
+      ...serializeIdentity(connector),
       start: serializePoint(connector.start),
       end: serializePoint(connector.end),
       mode: connector.mode === "compression" ? "compression" : "tension",
+      ...(connector.anchor ? { anchor: true } : {}),
+      ...(connector.ring ? { ring: connector.ring } : {}),
+      ...(connector.length !== undefined
+        ? { length: roundToTwoDecimals(connector.length) }
+        : {}),
+      ...(connector.holeDiameter !== undefined
+        ? { holeDiameter: roundToTwoDecimals(connector.holeDiameter) }
+        : {}),
+      mask: maskIndexOf(connector),
     })),
+    ...(state.hanger
+      ? {
+          hanger: {
+            point: serializePoint(state.hanger.point),
+            ...(state.hanger.secondPoint
+              ? { secondPoint: serializePoint(state.hanger.secondPoint) }
+              : {}),
+            ribbonLength: roundToTwoDecimals(state.hanger.ribbonLength),
+          },
+        }
+      : {}),
     noise: {
       gap: roundToTwoDecimals(state.gap),
       round: roundToTwoDecimals(state.round),
       noiseAmplitude: roundToTwoDecimals(state.noiseAmplitude),
       noiseSeed: roundToTwoDecimals(state.noiseSeed),
-      connectorLength: roundToTwoDecimals(state.connectorLength),
       holeDiameter: roundToTwoDecimals(state.holeDiameter),
+      kerf: roundToTwoDecimals(state.kerf),
+      pipeline: state.pipeline,
+    },
+    material: {
+      name: state.material.name,
+      thickness: roundToTwoDecimals(state.material.thickness),
+      density: roundToTwoDecimals(state.material.density),
+      wireDiameter: roundToTwoDecimals(state.material.wireDiameter),
+      ringInnerDiameter: roundToTwoDecimals(state.material.ringInnerDiameter),
+    },
+    canvas: {
+      width: roundToTwoDecimals(state.canvasWidth),
+      height: roundToTwoDecimals(state.canvasHeight),
+      resolution: roundToTwoDecimals(state.resolution),
     },
   };
 }
 
-export function deserializeScene(input: unknown): NormalizedScene | null {
-  if (!input || typeof input !== "object") return null;
-  const data = input as SerializedScene;
+// Loosely typed JSON as read from a file or link, before normalization.
+type RawScene = Record<string, any>;
+
+// migrations[n] upgrades a version n scene to version n + 1. Files from before
+// the version field are version 1 if they have `masks`, otherwise version 0.
+const migrations: ((data: RawScene) => RawScene)[] = [
+  // 0 → 1: a single `mask` became the `masks` list.
+  ({ mask, ...rest }) => ({ ...rest, masks: mask ? [mask] : [] }),
+  // 1 → 2: connectors carry an explicit anchor flag; before it, any connector
+  // with an end outside every outline hung the ornament. The pipeline and
+  // canvas settings became required, defaulting to what files from before
+  // they existed were made with.
+  (data) => {
+    const outlines: MaskPolygon[] = (
+      Array.isArray(data.masks) ? data.masks : []
+    ).map((mask: any) => ({
+      id: "",
+      points: Array.isArray(mask?.points) ? parseRing(mask.points) : [],
+    }));
+    const isOutside = (point: unknown) => {
+      const parsed = parsePoint(point);
+      return parsed !== null && findMaskAtPoint(outlines, parsed) === -1;
+    };
+    const noise =
+      data.noise && typeof data.noise === "object" ? data.noise : {};
+    return {
+      ...data,
+      connectors: Array.isArray(data.connectors)
+        ? data.connectors.map((connector: any) =>
+            !connector || typeof connector.anchor === "boolean"
+              ? connector
+              : {
+                  ...connector,
+                  anchor:
+                    isOutside(connector.start) || isOutside(connector.end),
+                }
+          )
+        : data.connectors,
+      noise: { pipeline: DEFAULT_SCENE_SETTINGS.pipeline, ...noise },
+      canvas: data.canvas ?? {
+        width: DEFAULT_CANVAS_WIDTH_MM,
+        height: DEFAULT_CANVAS_HEIGHT_MM,
+        resolution: DEFAULT_RESOLUTION,
+      },
+    };
+  },
+  // 2 → 3: outlines, segments and connectors may carry an `id` and `meta`;
+  // older scenes get fresh ids on load.
+  (data) => data,
+  // 3 → 4: segments may carry a label font, size and alignment.
+  (data) => data,
+  // 4 → 5: segment labels may also carry an offset and bold.
+  (data) => data,
+  // 5 → 6: a kerf setting; older scenes were cut without compensation.
+  (data) => ({
+    ...data,
+    noise: {
+      kerf: 0,
+      ...(data.noise && typeof data.noise === "object" ? data.noise : {}),
+    },
+  }),
+  // 6 → 7: a material profile replaced the connector length, which now
+  // follows from the rings. Older scenes get rings that keep their length.
+  (data) => {
+    const { connectorLength, ...noise }: RawScene =
+      data.noise && typeof data.noise === "object" ? data.noise : {};
+    if (typeof connectorLength !== "number" || !(connectorLength > 0)) {
+      return { ...data, noise };
+    }
+    return {
+      ...data,
+      noise,
+      material: materialForConnectorLength(
+        connectorLength,
+        isPositive(noise.holeDiameter)
+          ? noise.holeDiameter
+          : DEFAULT_SCENE_SETTINGS.holeDiameter
+      ),
+    };
+  },
+  // 7 → 8: connectors may name a catalog ring.
+  (data) => data,
+  // 8 → 9: connectors may override their length and hole diameter.
+  (data) => data,
+];
+
+const describeMissing = (value: unknown) =>
+  value === undefined ? "missing" : "invalid";
+
+function readNumber(
+  value: unknown,
+  fallback: number,
+  label: string,
+  warnings: string[],
+  isValid: (value: number) => boolean = Number.isFinite
+) {
+  if (typeof value === "number" && isValid(value)) {
+    return roundToTwoDecimals(value);
+  }
+  warnings.push(`${label} ${describeMissing(value)}; using ${fallback}`);
+  return fallback;
+}
+
+const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+const isNonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+
+function readList(value: unknown, label: string, warnings: string[]) {
+  if (Array.isArray(value)) return value as unknown[];
+  if (value !== undefined) warnings.push(`${label} invalid; none loaded`);
+  return [];
+}
+
+// Keeps a saved id unless another element already claimed it, so ids stay
+// unique within the scene.
+function readId(
+  value: unknown,
+  label: string,
+  taken: Set<string>,
+  warnings: string[]
+) {
+  if (typeof value === "string" && value && !taken.has(value)) {
+    taken.add(value);
+    return value;
+  }
+  if (typeof value === "string" && value) {
+    warnings.push(`${label} id "${value}" is used twice; given a new id`);
+  } else if (value !== undefined) {
+    warnings.push(`${label} id invalid; given a new id`);
+  }
+  const id = crypto.randomUUID();
+  taken.add(id);
+  return id;
+}
+
+function readMeta(
+  value: unknown,
+  label: string,
+  warnings: string[]
+): { meta?: Record<string, unknown> } {
+  if (value === undefined) return {};
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.keys(value).length
+      ? { meta: { ...(value as Record<string, unknown>) } }
+      : {};
+  }
+  warnings.push(`${label} metadata invalid; dropped`);
+  return {};
+}
+
+// Rings missing from this version's catalog fall back to the material's.
+function readJumpRing(value: unknown, label: string, warnings: string[]) {
+  if (value === undefined) return {};
   if (
-    !Array.isArray(data.mask?.points) ||
-    !Array.isArray(data.segments) ||
-    !Array.isArray(data.connectors) ||
-    typeof data.noise !== "object"
+    typeof value === "string" &&
+    RING_CATALOG.some((ring) => ring.id === value)
   ) {
-    return null;
+    return { ring: value };
   }
-  const maskPoints = data.mask.points
-    .map(parsePoint)
-    .filter((point): point is Point => Boolean(point));
-  if (maskPoints.length < 3) return null;
+  warnings.push(`${label} ring unknown; using the material's rings`);
+  return {};
+}
 
-  const segments: LineSegment[] = data.segments.reduce<LineSegment[]>(
-    (acc, segment) => {
+// An invalid override is dropped, so the connector follows the settings.
+function readConnectorSize(
+  connector: Partial<SerializedConnector> | null,
+  label: string,
+  warnings: string[]
+): Pick<LineSegment, "length" | "holeDiameter"> {
+  const { length, holeDiameter } = connector ?? {};
+  const validLength = typeof length === "number" && isPositive(length);
+  const validHole =
+    typeof holeDiameter === "number" && isPositive(holeDiameter);
+  if (length !== undefined && !validLength) {
+    warnings.push(`${label} length invalid; using the ring's`);
+  }
+  if (holeDiameter !== undefined && !validHole) {
+    warnings.push(`${label} hole diameter invalid; using the setting`);
+  }
+  return {
+    ...(validLength ? { length: roundToTwoDecimals(length) } : {}),
+    ...(validHole ? { holeDiameter: roundToTwoDecimals(holeDiameter) } : {}),
+  };
+}
+
+// Style values this version does not know are dropped, so the label falls
+// back to the default.
+function readLabelStyle(
+  segment: Partial<SerializedSegment> | null,
+  label: string,
+  warnings: string[]
+): LabelStyle {
+  const { fontFamily, fontSize, align, offset, bold } = segment ?? {};
+  const validFont =
+    fontFamily !== undefined && LABEL_FONT_FAMILIES.includes(fontFamily);
+  const validSize = typeof fontSize === "number" && isPositive(fontSize);
+  const validAlign = align !== undefined && LABEL_ALIGNS.includes(align);
+  const validOffset = typeof offset === "number" && Number.isFinite(offset);
+  if (fontFamily !== undefined && !validFont) {
+    warnings.push(`${label} font invalid; using the default`);
+  }
+  if (fontSize !== undefined && !validSize) {
+    warnings.push(`${label} font size invalid; using the default`);
+  }
+  if (align !== undefined && !validAlign) {
+    warnings.push(`${label} alignment invalid; using the default`);
+  }
+  if (offset !== undefined && !validOffset) {
+    warnings.push(`${label} label offset invalid; using 0`);
+  }
+  return {
+    ...(validFont ? { fontFamily } : {}),
+    ...(validSize ? { fontSize: roundToTwoDecimals(fontSize) } : {}),
+    ...(validAlign ? { align } : {}),
+    ...(validOffset && offset ? { offset: roundToTwoDecimals(offset) } : {}),
+    ...(bold === true ? { bold } : {}),
+  };
+}
+
+function readRing(input: unknown[], label: string, warnings: string[]) {
+  const points = parseRing(input);
+  if (points.length < input.length) {
+    warnings.push(
+      `${label}: ${input.length - points.length} invalid points dropped`
+    );
+  }
+  return points;
+}
+
+/**
+ * Read a scene from parsed JSON, upgrading files saved by older versions.
+ * Anything that cannot be read is dropped or replaced by a default and noted
+ * in `warnings`; `scene` is only null when no outline survives.
+ */
+export function deserializeScene(input: unknown): SceneLoadResult {
+  const warnings: string[] = [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { scene: null, version: 0, warnings: ["Scene is not an object"] };
+  }
+  let data = input as RawScene;
+  const version =
+    typeof data.version === "number"
+      ? data.version
+      : Array.isArray(data.masks)
+      ? 1
+      : 0;
+  if (version > SCENE_VERSION) {
+    warnings.push(
+      `Scene was saved by a newer version (${version}); anything this version does not know about is ignored`
+    );
+  }
+  for (let v = Math.max(version, 0); v < SCENE_VERSION; v += 1) {
+    data = migrations[v](data);
+  }
+
+  const ids = new Set<string>();
+
+  // Keep a slot per serialized outline so segment indices stay aligned even
+  // when an outline is dropped for having too few valid points.
+  const maskSlots: (MaskPolygon | null)[] = readList(
+    data.masks,
+    "Outlines",
+    warnings
+  ).map((rawMask, index) => {
+    const label = `Outline ${index + 1}`;
+    const rawPoints = (rawMask as SerializedMask | null)?.points;
+    const points = Array.isArray(rawPoints)
+      ? readRing(rawPoints, label, warnings)
+      : [];
+    if (points.length < 3) {
+      warnings.push(`${label} dropped: fewer than 3 valid points`);
+      return null;
+    }
+    const holes = readList(
+      (rawMask as SerializedMask).holes,
+      `${label} holes`,
+      warnings
+    ).flatMap((hole, holeIndex) => {
+      const holeLabel = `${label} hole ${holeIndex + 1}`;
+      const ring = Array.isArray(hole)
+        ? readRing(hole, holeLabel, warnings)
+        : [];
+      if (ring.length >= 3) return [ring];
+      warnings.push(`${holeLabel} dropped: fewer than 3 valid points`);
+      return [];
+    });
+    return {
+      id: readId((rawMask as SerializedMask).id, label, ids, warnings),
+      points,
+      ...(holes.length ? { holes } : {}),
+      ...readMeta((rawMask as SerializedMask).meta, label, warnings),
+    };
+  });
+  const masks = maskSlots.filter((mask): mask is MaskPolygon => Boolean(mask));
+  if (!masks.length) {
+    warnings.push("Scene has no outline with at least 3 valid points");
+    return { scene: null, version, warnings };
+  }
+
+  const withMaskId = (item: LineSegment, maskIndex: unknown): LineSegment => {
+    const slot =
+      typeof maskIndex === "number" ? maskSlots[maskIndex] : undefined;
+    if (slot) return { ...item, maskId: slot.id };
+    const maskId = resolveMaskId(masks, item);
+    return maskId ? { ...item, maskId } : item;
+  };
+
+  const segments = readList(data.segments, "Segments", warnings).flatMap(
+    (raw, index): LineSegment[] => {
+      const segment = raw as Partial<SerializedSegment> | null;
+      const label = `Segment ${index + 1}`;
       const start = parsePoint(segment?.start);
       const end = parsePoint(segment?.end);
-      if (!start || !end) return acc;
-      acc.push({
-        id: crypto.randomUUID(),
-        start,
-        end,
-        ...(typeof segment?.text === "string" ? { text: segment.text } : {}),
-      });
-      return acc;
-    },
-    []
+      if (!start || !end) {
+        warnings.push(`${label} dropped: invalid end points`);
+        return [];
+      }
+      return [
+        withMaskId(
+          {
+            id: readId(segment?.id, label, ids, warnings),
+            start,
+            end,
+            ...(typeof segment?.text === "string"
+              ? { text: segment.text }
+              : {}),
+            ...readLabelStyle(segment, label, warnings),
+            ...readMeta(segment?.meta, label, warnings),
+          },
+          segment?.mask
+        ),
+      ];
+    }
   );
 
-  const connectors: LineSegment[] = data.connectors.reduce<LineSegment[]>(
-    (acc, connector) => {
+  const connectors = readList(data.connectors, "Connectors", warnings).flatMap(
+    (raw, index): LineSegment[] => {
+      const connector = raw as Partial<SerializedConnector> | null;
+      const label = `Connector ${index + 1}`;
       const start = parsePoint(connector?.start);
       const end = parsePoint(connector?.end);
-      if (!start || !end) return acc;
-      acc.push({
-        id: crypto.randomUUID(),
-        start,
-        end,
-        mode: connector?.mode === "compression" ? "compression" : "tension",
-      });
-      return acc;
-    },
-    []
+      if (!start || !end) {
+        warnings.push(`${label} dropped: invalid end points`);
+        return [];
+      }
+      return [
+        withMaskId(
+          {
+            id: readId(connector?.id, label, ids, warnings),
+            start,
+            end,
+            mode: connector?.mode === "compression" ? "compression" : "tension",
+            ...(connector?.anchor ? { anchor: true } : {}),
+            ...readJumpRing(connector?.ring, label, warnings),
+            ...readConnectorSize(connector, label, warnings),
+            ...readMeta(connector?.meta, label, warnings),
+          },
+          connector?.mask
+        ),
+      ];
+    }
   );
 
-  const { noise } = data;
+  let hanger: Hanger | null = null;
+  if (data.hanger !== undefined && data.hanger !== null) {
+    const point = parsePoint(data.hanger.point);
+    const secondPoint = parsePoint(data.hanger.secondPoint);
+    if (!point) {
+      warnings.push("Hanger dropped: invalid hole position");
+    } else {
+      if (data.hanger.secondPoint !== undefined && !secondPoint) {
+        warnings.push("Second hanger hole dropped: invalid position");
+      }
+      hanger = {
+        point,
+        ...(secondPoint ? { secondPoint } : {}),
+        ribbonLength: readNumber(
+          data.hanger.ribbonLength,
+          DEFAULT_RIBBON_LENGTH_MM,
+          "Hanger ribbon length",
+          warnings,
+          isPositive
+        ),
+      };
+    }
+  }
+
+  const noise: Partial<Record<keyof NormalizedScene["noise"], unknown>> =
+    data.noise && typeof data.noise === "object" ? data.noise : {};
+  const setting = (
+    key: Exclude<keyof NormalizedScene["noise"], "pipeline">,
+    isValid?: (value: number) => boolean
+  ) =>
+    readNumber(
+      noise[key],
+      DEFAULT_SCENE_SETTINGS[key],
+      `Setting "${key}"`,
+      warnings,
+      isValid
+    );
+  let pipeline = DEFAULT_SCENE_SETTINGS.pipeline;
+  if (noise.pipeline === "raster" || noise.pipeline === "vector") {
+    pipeline = noise.pipeline;
+  } else {
+    warnings.push(
+      `Setting "pipeline" ${describeMissing(noise.pipeline)}; using ${pipeline}`
+    );
+  }
   const normalizedNoise = {
-    gap: roundToTwoDecimals(typeof noise.gap === "number" ? noise.gap : 1.5),
-    round: roundToTwoDecimals(
-      typeof noise.round === "number" ? noise.round : 2
-    ),
-    noiseAmplitude: roundToTwoDecimals(
-      typeof noise.noiseAmplitude === "number" ? noise.noiseAmplitude : 3
+    gap: setting("gap"),
+    round: setting("round"),
+    noiseAmplitude: setting("noiseAmplitude"),
+    noiseSeed: setting("noiseSeed"),
+    holeDiameter: setting("holeDiameter", isPositive),
+    kerf: setting("kerf", isNonNegative),
+    pipeline,
+  } satisfies NormalizedScene["noise"];
+
+  const material: Partial<Record<keyof Material, unknown>> =
+    data.material && typeof data.material === "object" ? data.material : {};
+  const materialValue = (key: Exclude<keyof Material, "name">, label: string) =>
+    readNumber(
+      material[key],
+      DEFAULT_MATERIAL[key],
+      `Material ${label}`,
+      warnings,
+      isPositive
+    );
+  let materialName = DEFAULT_MATERIAL.name;
+  if (typeof material.name === "string" && material.name.trim()) {
+    materialName = material.name;
+  } else {
+    warnings.push(
+      `Material name ${describeMissing(material.name)}; using ${materialName}`
+    );
+  }
+  const normalizedMaterial = {
+    name: materialName,
+    thickness: materialValue("thickness", "thickness"),
+    density: materialValue("density", "density"),
+    wireDiameter: materialValue("wireDiameter", "wire diameter"),
+    ringInnerDiameter: materialValue(
+      "ringInnerDiameter",
+      "ring inner diameter"
     ),
-    noiseSeed: roundToTwoDecimals(
-      typeof noise.noiseSeed === "number" ? noise.noiseSeed : 0
+  } satisfies Material;
+
+  const canvas: Partial<Record<keyof NormalizedScene["canvas"], unknown>> =
+    data.canvas && typeof data.canvas === "object" ? data.canvas : {};
+  const normalizedCanvas = {
+    width: readNumber(
+      canvas.width,
+      DEFAULT_CANVAS_WIDTH_MM,
+      "Canvas width",
+      warnings,
+      isPositive
     ),
-    connectorLength: roundToTwoDecimals(
-      typeof noise.connectorLength === "number" ? noise.connectorLength : 8
+    height: readNumber(
+      canvas.height,
+      DEFAULT_CANVAS_HEIGHT_MM,
+      "Canvas height",
+      warnings,
+      isPositive
     ),
-    holeDiameter: roundToTwoDecimals(
-      typeof noise.holeDiameter === "number" ? noise.holeDiameter : 2
+    resolution: readNumber(
+      canvas.resolution,
+      DEFAULT_RESOLUTION,
+      "Canvas resolution",
+      warnings,
+      isPositive
     ),
   };
 
   return {
-    mask: {
-      id: crypto.randomUUID(),
-      points: maskPoints,
+    scene: {
+      masks,
+      segments,
+      connectors,
+      hanger,
+      noise: normalizedNoise,
+      material: normalizedMaterial,
+      canvas: normalizedCanvas,
     },
-    segments,
-    connectors,
-    noise: normalizedNoise,
+    version,
+    warnings,
   };
 }
 
@@ -200,19 +799,6 @@ const base64UrlToBytes = (value: string): Uint8Array => {
   return bytes;
 };
 
-const compressString = async (value: string): Promise<Uint8Array> => {
-  const cs = new CompressionStream("gzip");
-
-  // Turn the input string into a ReadableStream
-  const input = new Blob([value]).stream();
-
-  // Pipe it through gzip, then read it back
-  const compressed = input.pipeThrough(cs);
-  const buffer = await new Response(compressed).arrayBuffer();
-
-  return new Uint8Array(buffer);
-};
-
 const decompressToString = async (data: Uint8Array): Promise<string | null> => {
   // No DecompressionStream support: just try plain text decode
   if (typeof DecompressionStream === "undefined") {
@@ -247,25 +833,53 @@ const decompressToString = async (data: Uint8Array): Promise<string | null> => {
   }
 };
 
+// Links are written in the binary format; links from before it are
+// gzip-compressed JSON, or plain JSON where the browser could not compress.
+const isJsonPayload = (bytes: Uint8Array) =>
+  (bytes[0] === 0x1f && bytes[1] === 0x8b) || bytes[0] === 0x7b;
+
+// Without `ids` the link leaves element ids out, which roughly halves it;
+// the scene loads with fresh ids.
 export async function encodeSceneToHash(
-  state: TreeDanglerState
+  state: SceneState,
+  { ids = true }: { ids?: boolean } = {}
 ): Promise<string> {
-  const serialized = serializeScene(state);
-  const json = JSON.stringify(serialized);
-  const compressed = await compressString(json);
-  return bytesToBase64Url(compressed);
+  const scene = serializeScene(state);
+  if (!ids) {
+    [...scene.masks, ...scene.segments, ...scene.connectors].forEach(
+      (item) => delete item.id
+    );
+  }
+  return bytesToBase64Url(encodeSceneBinary(scene));
 }
 
+// The page's own address with the scene as its fragment.
+export function shareLinkForHash(hash: string) {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${hash}`;
+}
+
+// What had to be repaired or dropped while decoding is appended to
+// `warnings`.
 export async function decodeSceneFromHash(
-  fragment: string
+  fragment: string,
+  warnings: string[] = []
 ): Promise<NormalizedScene | null> {
   if (!fragment) return null;
   try {
     const bytes = base64UrlToBytes(fragment);
-    const json = await decompressToString(bytes);
-    if (!json) return null;
-    const payload = JSON.parse(json);
-    return deserializeScene(payload);
+    let payload: unknown;
+    if (isJsonPayload(bytes)) {
+      const json = await decompressToString(bytes);
+      if (!json) return null;
+      payload = JSON.parse(json);
+    } else {
+      payload = decodeSceneBinary(bytes, warnings);
+    }
+    const result = deserializeScene(payload);
+    const { scene } = result;
+    warnings.push(...result.warnings);
+    return scene;
   } catch (err) {
     console.error("Failed to decode scene from URL hash", err);
     return null;
@@ -26,8 +26,7 @@ function distanceToSegment(point: Point, start: Point, end: Point) {
   return distance(point, closest);
 }
 
-export function isPointInsideMask(point: Point, mask: MaskPolygon): boolean {
-  const { points } = mask;
+function isPointInsideRing(point: Point, points: Point[]): boolean {
   if (points.length < 3) return false;
 
   let inside = false;
@@ -48,6 +47,11 @@ export function isPointInsideMask(point: Point, mask: MaskPolygon): boolean {
   return inside;
 }
 
+export function isPointInsideMask(point: Point, mask: MaskPolygon): boolean {
+  if (!isPointInsideRing(point, mask.points)) return false;
+  return !(mask.holes ?? []).some((hole) => isPointInsideRing(point, hole));
+}
+
 export function clampPointToMask(
   point: Point,
   mask: MaskPolygon
@@ -59,7 +63,7 @@ export function clampPointToMask(
 }
 
 export function createDefaultSegmentAtPoint(
-  _mask: MaskPolygon,
+  mask: MaskPolygon | null,
   click: Point
 ): LineSegment | null {
   const span = 20;
@@ -71,6 +75,7 @@ export function createDefaultSegmentAtPoint(
     start,
     end,
     text: "text",
+    ...(mask ? { maskId: mask.id } : {}),
   };
 }
 
@@ -117,7 +122,7 @@ export function hitTestEndpoint(
 export function moveSegment(
   segment: LineSegment,
   delta: Point,
-  _mask: MaskPolygon
+  _mask: MaskPolygon | null
 ): LineSegment | null {
   const newStart = {
     x: segment.start.x + delta.x,
@@ -132,7 +137,7 @@ export function moveEndpoint(
   segment: LineSegment,
   endpoint: "start" | "end",
   newPoint: Point,
-  _mask: MaskPolygon
+  _mask: MaskPolygon | null
 ): LineSegment | null {
   if (endpoint === "start") {
     return { ...segment, start: newPoint };
@@ -1,29 +1,51 @@
 import Matter from "matter-js";
 import decomp from "poly-decomp";
+import { intersection } from "martinez-polygon-clipping";
 
 // Required for Matter to find the decomp library
-// (Matter checks for global `window.decomp`)
-(window as any).decomp = decomp;
+// (Matter checks for global `window.decomp`). Uses globalThis so the
+// simulation also runs inside workers.
+(globalThis as any).decomp = decomp;
 
 (Matter.Common as any).setDecomp(decomp);
 
-import type { LineSegment, Polygon } from "../types";
-import { applyCompressionOffset, mmToPx } from "./connectors";
+import type {
+  ConnectorMode,
+  Hanger,
+  LineSegment,
+  Material,
+  Point,
+  Polygon,
+} from "../types";
+import { applyCompressionOffset } from "./connectors";
+import { hangerHoles, hangerPivot } from "./hanger";
+import { bodyDensity, connectorFit } from "./materials";
+import { mmToPx } from "./units";
 
 export interface SimulationWorld {
   engine: Matter.Engine;
   destroy: () => void;
   attachments: Record<string, Matter.Body | null>;
+  // The body simulating each piece, keyed by polygon id.
+  pieces: { id: string; body: Matter.Body }[];
+  // The constraints standing in for each connector, keyed by connector id:
+  // the ring itself and the pins from each hole to its piece.
+  links: {
+    id: string;
+    constraint: Matter.Constraint;
+    anchors: [Matter.Constraint, Matter.Constraint];
+    holeRadius: number;
+  }[];
 }
 
-const WIRE_THICKNESS_MM = 1;
-
 export function createSimulationWorld(
   polygons: Polygon[],
   connectors: LineSegment[],
   holeDiameter: number,
+  material: Material,
   _width: number,
-  _height: number
+  _height: number,
+  hanger: Hanger | null = null
 ): SimulationWorld {
   const engine = Matter.Engine.create();
   engine.constraintIterations = 500;
@@ -33,47 +55,60 @@ export function createSimulationWorld(
   world.gravity.y = 1;
 
   const bodies: Matter.Body[] = [];
+  const pieces: SimulationWorld["pieces"] = [];
+  const links: SimulationWorld["links"] = [];
   const attachments: Record<string, Matter.Body | null> = {};
-  const holeRadius = mmToPx(holeDiameter - WIRE_THICKNESS_MM) / 2;
-  const compressionOffsetPx = mmToPx((holeDiameter - WIRE_THICKNESS_MM) * 2);
 
   polygons.forEach((poly) => {
     if (poly.points.length < 3) return;
-    const vertices = poly.points.map((p) => ({ x: p.x, y: p.y }));
+    const vertexSets = bodyVertexSets(poly);
+    if (!vertexSets.length) return;
     const body = Matter.Bodies.fromVertices(
       0,
       0,
-      [vertices],
+      vertexSets,
       {
         friction: 0.8,
         restitution: 0.01,
-        density: 0.002,
+        density: bodyDensity(material),
       },
       true,
       0.5
     );
     if (body) {
-      const center = Matter.Vertices.centre(vertices);
-      Matter.Body.setPosition(body, center);
+      Matter.Body.setPosition(body, vertexSetsCentre(vertexSets));
       bodies.push(body);
+      pieces.push({ id: poly.id, body });
     }
   });
 
   Matter.Composite.add(world, bodies);
 
   connectors.forEach((connector, idx) => {
+    const compressionOffsetPx = mmToPx(
+      connectorFit(connector, material, holeDiameter).compressionOffset
+    );
+    // How far the ring can slide within each hole: going from taut to pushed
+    // together moves both ends across it and back.
+    const holeRadius = compressionOffsetPx / 4;
+    // The hole circles only carry the pins, but need some size to have mass
+    // even when a ring has no play at all.
+    const circleRadius = Math.max(holeRadius, 1);
     const adjusted = applyCompressionOffset(connector, compressionOffsetPx);
     const start = adjusted.start;
     const end = adjusted.end;
 
-    const attachA = attachToBody(world, bodies, start);
-    const attachB = attachToBody(world, bodies, end);
+    const attachA = attachToBody(world, bodies, start, connector);
+    const attachB = attachToBody(world, bodies, end, connector);
+    // A ring with a loose end holds nothing up, so it is left out rather than
+    // pinned where the end happens to be; connectivity reports it.
+    if (!attachA || !attachB) return;
 
-    const circleA = Matter.Bodies.circle(start.x, start.y, holeRadius, {
+    const circleA = Matter.Bodies.circle(start.x, start.y, circleRadius, {
       collisionFilter: { mask: 0 },
       render: { visible: false },
     });
-    const circleB = Matter.Bodies.circle(end.x, end.y, holeRadius, {
+    const circleB = Matter.Bodies.circle(end.x, end.y, circleRadius, {
       collisionFilter: { mask: 0 },
       render: { visible: false },
     });
@@ -121,41 +156,240 @@ export function createSimulationWorld(
     });
 
     Matter.Composite.add(world, [anchorA, anchorB, edgeConstraint]);
+    links.push({
+      id: connector.id,
+      constraint: edgeConstraint,
+      anchors: [anchorA, anchorB],
+      holeRadius,
+    });
 
     attachments[`${idx}-start`] = attachA.isStub ? attachA.body : null;
     attachments[`${idx}-end`] = attachB.isStub ? attachB.body : null;
   });
 
+  // The ribbon swings the ornament like a pendulum from its fixed pivot.
+  if (hanger) {
+    const pivot = hangerPivot(hanger);
+    hangerHoles(hanger).forEach((hole) => {
+      const body = findContainingBody(bodies, hole);
+      if (!body) return;
+      const ribbon = Matter.Constraint.create({
+        pointA: pivot,
+        bodyB: body,
+        pointB: { x: hole.x - body.position.x, y: hole.y - body.position.y },
+        length: Math.hypot(hole.x - pivot.x, hole.y - pivot.y),
+        stiffness: 1,
+        damping: 0.1,
+      });
+      Matter.Composite.add(world, ribbon);
+    });
+  }
+
   const destroy = () => {
     Matter.World.clear(world, false);
     Matter.Engine.clear(engine);
   };
 
-  return { engine, destroy, attachments };
+  return { engine, destroy, attachments, pieces, links };
 }
 
-function attachToBody(
-  world: Matter.World,
+function anchorPoint(anchor: Matter.Constraint) {
+  return anchor.bodyA
+    ? Matter.Vector.add(anchor.bodyA.position, anchor.pointA)
+    : anchor.pointA;
+}
+
+// How far a ring's holes have slid together, from 0 when the ring is pulled
+// taut (tension) to -1 when both holes press against its near ends
+// (compression). The ring is a rod between points on the rims of the two hole
+// circles, so the holes are furthest apart exactly when it is taut. Measured
+// between the points on the pieces, since the pins stretch under load.
+export function connectorLoad(link: SimulationWorld["links"][number]) {
+  const { constraint, anchors, holeRadius } = link;
+  if (!holeRadius) return 0;
+  const taut = constraint.length + holeRadius * 2;
+  const a = anchorPoint(anchors[0]);
+  const b = anchorPoint(anchors[1]);
+  const current = Math.hypot(a.x - b.x, a.y - b.y);
+  return Math.max(-1, Math.min(0, (current - taut) / (holeRadius * 2)));
+}
+
+export function modeFromLoad(load: number): ConnectorMode {
+  return load < -0.5 ? "compression" : "tension";
+}
+
+const STEP_MS = 1000 / 60;
+// Kinetic energy per unit mass below which the ornament counts as at rest;
+// the constraint solver leaves a residual jitter well under this.
+export const SETTLE_ENERGY_THRESHOLD = 3e-4;
+// Consecutive quiet steps required, so a swing's turning point is not
+// mistaken for rest.
+export const SETTLE_QUIET_STEPS = 30;
+const DEFAULT_SETTLE_STEPS = 600;
+
+export function specificKineticEnergy(bodies: Matter.Body[]) {
+  let energy = 0;
+  let mass = 0;
+  bodies.forEach((body) => {
+    energy +=
+      0.5 * body.mass * body.speed * body.speed +
+      0.5 * body.inertia * body.angularSpeed * body.angularSpeed;
+    mass += body.mass;
+  });
+  return mass ? energy / mass : 0;
+}
+
+export interface SettleOptions {
+  maxSteps?: number;
+  energyThreshold?: number;
+  quietSteps?: number;
+  // Overrides the solver iterations of createSimulationWorld, trading
+  // accuracy for speed.
+  constraintIterations?: number;
+  hanger?: Hanger | null;
+}
+
+export interface SettledPiece {
+  id: string;
+  position: Point;
+  // Movement of the centre of mass from its designed position.
+  displacement: Point;
+  // Rotation from the designed orientation in radians, clockwise positive.
+  angle: number;
+}
+
+export interface ConnectorLoad {
+  id: string;
+  // Mean load of the connector's ring while at rest; see connectorLoad.
+  load: number;
+  mode: ConnectorMode;
+}
+
+export interface SettleResult {
+  converged: boolean;
+  steps: number;
+  energy: number;
+  pieces: SettledPiece[];
+  // Area-weighted mean rotation of all pieces in radians.
+  tilt: number;
+  connectors: ConnectorLoad[];
+}
+
+/**
+ * Run the simulation headlessly until it comes to rest or `maxSteps` runs
+ * out, and report where every piece ends up.
+ */
+export function settleSimulation(
+  polygons: Polygon[],
+  connectors: LineSegment[],
+  holeDiameter: number,
+  material: Material,
+  width: number,
+  height: number,
+  options: SettleOptions = {}
+): SettleResult {
+  const {
+    maxSteps = DEFAULT_SETTLE_STEPS,
+    energyThreshold = SETTLE_ENERGY_THRESHOLD,
+    quietSteps = SETTLE_QUIET_STEPS,
+    constraintIterations,
+    hanger = null,
+  } = options;
+  const world = createSimulationWorld(
+    polygons,
+    connectors,
+    holeDiameter,
+    material,
+    width,
+    height,
+    hanger
+  );
+  try {
+    const { engine, pieces, links } = world;
+    if (constraintIterations !== undefined) {
+      engine.constraintIterations = constraintIterations;
+    }
+    const bodies = pieces.map((piece) => piece.body);
+    const initial = bodies.map((body) => ({ ...body.position }));
+
+    let steps = 0;
+    let quiet = 0;
+    let energy = 0;
+    // Load summed over the current run of quiet steps, to average out the
+    // solver's jitter.
+    const loadSums = links.map(() => 0);
+    while (steps < maxSteps && quiet < quietSteps) {
+      Matter.Engine.update(engine, STEP_MS);
+      steps += 1;
+      energy = specificKineticEnergy(bodies);
+      quiet = energy < energyThreshold ? quiet + 1 : 0;
+      links.forEach((link, index) => {
+        loadSums[index] = quiet ? loadSums[index] + connectorLoad(link) : 0;
+      });
+    }
+    const loads = links.map((link, index) => {
+      const load = quiet ? loadSums[index] / quiet : connectorLoad(link);
+      return { id: link.id, load, mode: modeFromLoad(load) };
+    });
+
+    let totalArea = 0;
+    let weightedAngle = 0;
+    const settled = pieces.map(({ id, body }, index) => {
+      const angle = Math.atan2(Math.sin(body.angle), Math.cos(body.angle));
+      totalArea += body.area;
+      weightedAngle += angle * body.area;
+      return {
+        id,
+        position: { x: body.position.x, y: body.position.y },
+        displacement: {
+          x: body.position.x - initial[index].x,
+          y: body.position.y - initial[index].y,
+        },
+        angle,
+      };
+    });
+
+    return {
+      converged: quiet >= quietSteps,
+      steps,
+      energy,
+      pieces: settled,
+      tilt: totalArea ? weightedAngle / totalArea : 0,
+      connectors: loads,
+    };
+  } finally {
+    world.destroy();
+  }
+}
+
+function findContainingBody(
   bodies: Matter.Body[],
   point: { x: number; y: number }
 ) {
-  const findContainingBody = () => {
-    for (const body of bodies) {
-      if (body.parts && body.parts.length > 1) {
-        for (let i = 1; i < body.parts.length; i += 1) {
-          const part = body.parts[i];
-          if (Matter.Vertices.contains(part.vertices, point)) {
-            return body;
-          }
+  for (const body of bodies) {
+    if (body.parts && body.parts.length > 1) {
+      for (let i = 1; i < body.parts.length; i += 1) {
+        const part = body.parts[i];
+        if (Matter.Vertices.contains(part.vertices, point)) {
+          return body;
         }
-      } else if (Matter.Vertices.contains(body.vertices, point)) {
-        return body;
       }
+    } else if (Matter.Vertices.contains(body.vertices, point)) {
+      return body;
     }
-    return null;
-  };
+  }
+  return null;
+}
 
-  const containing = findContainingBody();
+// The body under `point`, or for an anchor connector a static stub there
+// that the ornament hangs from; null for any other end outside the pieces.
+function attachToBody(
+  world: Matter.World,
+  bodies: Matter.Body[],
+  point: { x: number; y: number },
+  connector: LineSegment
+) {
+  const containing = findContainingBody(bodies, point);
   if (containing) {
     return {
       body: containing,
@@ -166,6 +400,7 @@ function attachToBody(
       isStub: false,
     };
   }
+  if (!connector.anchor) return null;
 
   const stub = Matter.Bodies.circle(point.x, point.y, 2, {
     isStatic: true,
@@ -174,3 +409,75 @@ function attachToBody(
   Matter.Composite.add(world, stub);
   return { body: stub, point: { x: 0, y: 0 }, isStub: true };
 }
+
+const toRing = (points: Point[]) => {
+  const ring = points.map((p) => [p.x, p.y]);
+  ring.push([points[0].x, points[0].y]);
+  return ring;
+};
+
+// Matter bodies cannot have holes, so a piece with inner rings is sliced into
+// vertical strips through the middle of each hole. Every hole is crossed by
+// its own cut, which leaves each strip a simple polygon.
+function bodyVertexSets(poly: Polygon): Matter.Vector[][] {
+  const outer = poly.points.map((p) => ({ x: p.x, y: p.y }));
+  const holes = (poly.holes ?? []).filter((hole) => hole.length >= 3);
+  if (!holes.length) return [outer];
+
+  const xs = outer.map((p) => p.x);
+  const ys = outer.map((p) => p.y);
+  const minY = Math.min(...ys) - 1;
+  const maxY = Math.max(...ys) + 1;
+  const cuts = [
+    Math.min(...xs) - 1,
+    ...holes
+      .map((hole) => hole.reduce((sum, p) => sum + p.x, 0) / hole.length)
+      .sort((a, b) => a - b),
+    Math.max(...xs) + 1,
+  ];
+  const geometry = [toRing(poly.points), ...holes.map(toRing)];
+
+  const vertexSets: Matter.Vector[][] = [];
+  for (let i = 0; i < cuts.length - 1; i += 1) {
+    if (cuts[i + 1] - cuts[i] <= 0) continue;
+    const strip = [
+      [
+        [cuts[i], minY],
+        [cuts[i + 1], minY],
+        [cuts[i + 1], maxY],
+        [cuts[i], maxY],
+        [cuts[i], minY],
+      ],
+    ];
+    const clipped = intersection(geometry, strip) as
+      | number[][][]
+      | number[][][][]
+      | null;
+    if (!clipped || !clipped.length) continue;
+    const multiPolygon: number[][][][] = Array.isArray(clipped[0][0][0])
+      ? (clipped as number[][][][])
+      : [clipped as number[][][]];
+    multiPolygon.forEach((piece) => {
+      const ring = piece[0] ?? [];
+      const vertices = ring.slice(0, -1).map(([x, y]) => ({ x, y }));
+      if (vertices.length >= 3) vertexSets.push(vertices);
+    });
+  }
+  return vertexSets;
+}
+
+function vertexSetsCentre(vertexSets: Matter.Vector[][]): Matter.Vector {
+  if (vertexSets.length === 1) return Matter.Vertices.centre(vertexSets[0]);
+  let totalArea = 0;
+  let x = 0;
+  let y = 0;
+  vertexSets.forEach((vertices) => {
+    const area = Matter.Vertices.area(vertices, false);
+    const centre = Matter.Vertices.centre(vertices);
+    totalArea += area;
+    x += centre.x * area;
+    y += centre.y * area;
+  });
+  if (!totalArea) return Matter.Vertices.centre(vertexSets[0]);
+  return { x: x / totalArea, y: y / totalArea };
+}
@@ -1,15 +1,41 @@
 import { line, curveCatmullRomClosed } from "d3-shape";
-import type { LineSegment, Polygon } from "../types";
-import { applyCompressionOffset, mmToPx } from "./connectors";
+import type {
+  CutLayout,
+  ExportLayerKind,
+  ExportLayers,
+  Hanger,
+  LineSegment,
+  MaskPolygon,
+  Material,
+  NestedExport,
+  Point,
+  Polygon,
+  QrEngraving,
+} from "../types";
+import { applyCompressionOffset } from "./connectors";
+import {
+  DEFAULT_EXPORT_LAYERS,
+  EXPORT_LAYER_LABELS,
+  exportLayerOrder,
+  registrationMarks,
+} from "./exportLayers";
+import { HANGER_HOLE_DIAMETER_MM, hangerHoles } from "./hanger";
+import { compensateKerf, layerKerf } from "./kerf";
+import {
+  BOLD_STROKE_EM,
+  contoursPathData,
+  labelStyle,
+  layoutLabel,
+  type LabelFonts,
+} from "./labelText";
+import { connectorFit } from "./materials";
+import { nestPieces, pieceNumberPoint, type PiecePlacement } from "./nesting";
+import { encodeQrCode, qrCodePath } from "./qrCode";
+import { isPointInsideMask } from "./segments";
+import { mmToPx, pxToMm } from "./units";
 
-const MM_TO_PX = 5;
-const HOLE_STROKE_MM = 0.18;
 const MIN_POINT_GAP_PX = 0.5;
 
-function pxToMm(px: number) {
-  return px / MM_TO_PX;
-}
-
 function smoothPoints(points: { x: number; y: number }[]) {
   if (points.length < 3) return points;
   const n = points.length;
@@ -64,7 +90,189 @@ function catmullRomPath(points: { x: number; y: number }[]): string {
   return d ? `${d} Z` : "";
 }
 
-const WIRE_THICKNESS_MM = 1;
+/**
+ * The same closed curve as catmullRomPath, as cubic Bézier segments in px:
+ * the start point followed by (control, control, end) for each segment.
+ */
+export function outlineBeziers(points: Point[]): Point[] {
+  const pts = preprocessPoints(points);
+  if (pts.length < 3) return [];
+  const result: Point[] = [];
+  const recorder = {
+    moveTo: (x: number, y: number) => result.push({ x, y }),
+    lineTo: (x: number, y: number) => {
+      const from = result[result.length - 1];
+      result.push(from, { x, y }, { x, y });
+    },
+    bezierCurveTo: (
+      x1: number,
+      y1: number,
+      x2: number,
+      y2: number,
+      x: number,
+      y: number
+    ) => result.push({ x: x1, y: y1 }, { x: x2, y: y2 }, { x, y }),
+    closePath: () => {},
+  };
+  line<Point>()
+    .x((p: Point) => p.x)
+    .y((p: Point) => p.y)
+    .curve(curveCatmullRomClosed.alpha(0.5))
+    .context(recorder)(pts);
+  return result;
+}
+
+/**
+ * Where the holes for connectors' wires are cut, each sized for its ring;
+ * compression connectors cut their holes closer together, so the wire
+ * pushes the pieces apart.
+ */
+export function connectorHoleCuts(
+  connectors: LineSegment[],
+  holeDiameterMm: number,
+  material: Material
+): { point: Point; diameterMm: number }[] {
+  return connectors.flatMap((connector) => {
+    const fit = connectorFit(connector, material, holeDiameterMm);
+    const { start, end } = applyCompressionOffset(
+      connector,
+      mmToPx(fit.compressionOffset)
+    );
+    return [start, end].map((point) => ({
+      point,
+      diameterMm: fit.holeDiameter,
+    }));
+  });
+}
+
+export type EngravedQrCode = QrEngraving & { text: string };
+
+// Plain text for a label whose font is not loaded; the result depends on the
+// fonts installed where it is opened.
+function labelText(segment: LineSegment) {
+  const { fontFamily, fontSize, align, offset, bold } = labelStyle(segment);
+  const anchorPoint =
+    align === "start"
+      ? segment.start
+      : align === "end"
+      ? segment.end
+      : {
+          x: (segment.start.x + segment.end.x) / 2,
+          y: (segment.start.y + segment.end.y) / 2,
+        };
+  const angle = Math.atan2(
+    segment.end.y - segment.start.y,
+    segment.end.x - segment.start.x
+  );
+  // Offset towards the left of the segment's direction, as in layoutLabel.
+  const x = (pxToMm(anchorPoint.x) + Math.sin(angle) * offset).toFixed(2);
+  const y = (pxToMm(anchorPoint.y) - Math.cos(angle) * offset).toFixed(2);
+  const rotate = ((angle * 180) / Math.PI).toFixed(2);
+  const length = pxToMm(
+    Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y)
+  );
+  const fit =
+    align === "fit"
+      ? ` textLength="${length.toFixed(2)}" lengthAdjust="spacingAndGlyphs"`
+      : "";
+  const text = (segment.text ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return `<text x="${x}" y="${y}" text-anchor="${
+    align === "fit" ? "middle" : align
+  }" dominant-baseline="middle" transform="rotate(${rotate} ${x} ${y})" font-family="${fontFamily}"${
+    bold ? ' font-weight="bold"' : ""
+  } font-size="${fontSize.toFixed(3)}"${fit}>${text}</text>`;
+}
+
+// Markup for a segment's label: outlined with its bundled font, or as text
+// when the font failed to load.
+function labelMarkup(
+  segment: LineSegment,
+  fonts: LabelFonts,
+  layers: ExportLayers
+) {
+  const { fontFamily, bold } = labelStyle(segment);
+  const font = fonts[fontFamily];
+  if (!font) return labelText(segment);
+  const { contours, emSize } = layoutLabel(font, segment);
+  const pathD = contoursPathData(contours);
+  // Bold only thickens filled (engraved) text; a cut or scored label
+  // follows the glyph outlines either way.
+  const boldStroke =
+    bold && layers.labels.operation === "engrave"
+      ? ` stroke="${layers.labels.color}" stroke-width="${pxToMm(
+          emSize * BOLD_STROKE_EM
+        ).toFixed(3)}" stroke-linejoin="round"`
+      : "";
+  return pathD ? `<path d="${pathD}"${boldStroke} />` : "";
+}
+
+// A stroked circle is cut along its centre line, so pull the radius in by
+// half the stroke, and when it is cut through by half the kerf the beam burns
+// away around it, to keep the hole at its nominal size.
+function holeMarkup(
+  point: Point,
+  diameterMm: number,
+  layers: ExportLayers,
+  kerfMm: number
+) {
+  const inset =
+    layerKerf(layers.holes, kerfMm) / 2 +
+    (layers.holes.operation === "engrave" ? 0 : layers.holes.strokeWidth / 2);
+  return `<circle cx="${pxToMm(point.x).toFixed(2)}" cy="${pxToMm(
+    point.y
+  ).toFixed(2)}" r="${Math.max(diameterMm / 2 - inset, 0).toFixed(3)}" />`;
+}
+
+function ringsPath(rings: Point[][]) {
+  const pathD = rings.map(catmullRomPath).filter(Boolean).join(" ");
+  return pathD ? `<path d="${pathD}" />` : "";
+}
+
+function qrMarkup(qr: EngravedQrCode, modules: boolean[][]) {
+  return `<path d="${qrCodePath(
+    modules,
+    pxToMm(qr.point.x) - qr.size / 2,
+    pxToMm(qr.point.y) - qr.size / 2,
+    qr.size / modules.length
+  )}" />`;
+}
+
+function registrationMarkup(width: number, height: number) {
+  return registrationMarks(width, height)
+    .map(
+      ([a, b]) =>
+        `<line x1="${pxToMm(a.x).toFixed(2)}" y1="${pxToMm(a.y).toFixed(
+          2
+        )}" x2="${pxToMm(b.x).toFixed(2)}" y2="${pxToMm(b.y).toFixed(2)}" />`
+    )
+    .join("\n");
+}
+
+function layerGroup(kind: ExportLayerKind, layers: ExportLayers, body: string) {
+  const { color, strokeWidth, operation } = layers[kind];
+  const paint =
+    operation === "engrave"
+      ? `fill="${color}" stroke="none"`
+      : `fill="none" stroke="${color}" stroke-width="${strokeWidth}"`;
+  return `<g id="layer-${kind}" inkscape:groupmode="layer" inkscape:label="${EXPORT_LAYER_LABELS[kind]} (${operation})" ${paint}>
+  ${body}
+</g>`;
+}
+
+function svgDocument(widthMm: number, heightMm: number, body: string) {
+  return `
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${widthMm}mm" height="${heightMm}mm" viewBox="0 0 ${widthMm} ${heightMm}" style="background: transparent">
+  ${body}
+</svg>
+`.trim();
+}
+
+function ornamentKeyOf(meta: Polygon["meta"]) {
+  return typeof meta?.maskId === "string" ? meta.maskId : "";
+}
 
 export function generateSVG(
   polygons: Polygon[],
@@ -72,73 +280,226 @@ export function generateSVG(
   segments: LineSegment[],
   width: number,
   height: number,
-  holeDiameterMm: number
+  holeDiameterMm: number,
+  material: Material,
+  hanger: Hanger | null = null,
+  qr: EngravedQrCode | null = null,
+  layers: ExportLayers = DEFAULT_EXPORT_LAYERS,
+  masks: MaskPolygon[] = [],
+  fonts: LabelFonts = {},
+  kerfMm = 0
 ): string {
-  const svgWidth = pxToMm(width);
-  const svgHeight = pxToMm(height);
-  const primaryStroke = "#4DE2FF"; // cyan accent
-  const secondaryStroke = "#7E6CFF"; // indigo accent
-
-  const polygonPaths = polygons
-    .map((polygon) => {
-      if (!polygon.points.length) return "";
-      const pathD = catmullRomPath(polygon.points);
-      return pathD ? `<path d="${pathD}" />` : "";
-    })
-    .filter(Boolean)
-    .join("\n");
+  // Within each layer, every outline gets its own group so several ornaments
+  // cut from one sheet stay side by side and can be selected individually.
+  const ornamentKeys: string[] = [];
+  const addOrnamentKey = (key: string) => {
+    if (!ornamentKeys.includes(key)) ornamentKeys.push(key);
+  };
+  polygons.forEach((polygon) => addOrnamentKey(ornamentKeyOf(polygon.meta)));
+  connectors.forEach((connector) => addOrnamentKey(connector.maskId ?? ""));
+  segments.forEach((segment) => addOrnamentKey(segment.maskId ?? ""));
+  // Hanger holes belong to the ornament of the piece they are cut into.
+  const hangerHoleKeys = (hanger ? hangerHoles(hanger) : []).map((point) => {
+    const piece = polygons.find((polygon) => isPointInsideMask(point, polygon));
+    return { point, key: piece ? ornamentKeyOf(piece.meta) : "" };
+  });
+  hangerHoleKeys.forEach(({ key }) => addOrnamentKey(key));
+  if (layers.outline.enabled) {
+    masks.forEach((mask) => addOrnamentKey(mask.id));
+  }
+  // The QR code is engraved into the piece under its centre, and left out
+  // when that misses every piece or the link is too long to encode.
+  const qrPiece = qr
+    ? polygons.find((polygon) => isPointInsideMask(qr.point, polygon))
+    : undefined;
+  const qrModules = qr && qrPiece ? encodeQrCode(qr.text) : null;
+  const qrKey = qrPiece ? ornamentKeyOf(qrPiece.meta) : "";
+  const cutPolygons = compensateKerf(
+    polygons,
+    layerKerf(layers.pieces, kerfMm)
+  );
 
-  const compressionOffsetPx = mmToPx((holeDiameterMm - WIRE_THICKNESS_MM) * 2);
-
-  const holes = connectors
-    .map((connector) => applyCompressionOffset(connector, compressionOffsetPx))
-    .flatMap((connector) => [connector.start, connector.end])
-    .map((point) => {
-      const radius = Math.max(holeDiameterMm / 2 - HOLE_STROKE_MM / 2, 0);
-      return `<circle cx="${pxToMm(point.x).toFixed(2)}" cy="${pxToMm(
-        point.y
-      ).toFixed(2)}" r="${radius.toFixed(
-        3
-      )}" fill="none" stroke="${secondaryStroke}" stroke-width="${HOLE_STROKE_MM}" />`;
-    })
-    .join("\n");
+  const ornamentContent: Record<
+    Exclude<ExportLayerKind, "registration">,
+    (key: string) => string[]
+  > = {
+    pieces: (key) =>
+      cutPolygons
+        .filter((polygon) => ornamentKeyOf(polygon.meta) === key)
+        .filter((polygon) => polygon.points.length)
+        .map((polygon) =>
+          ringsPath([polygon.points, ...(polygon.holes ?? [])])
+        ),
+    holes: (key) => [
+      ...connectorHoleCuts(
+        connectors.filter((connector) => (connector.maskId ?? "") === key),
+        holeDiameterMm,
+        material
+      ).map(({ point, diameterMm }) =>
+        holeMarkup(point, diameterMm, layers, kerfMm)
+      ),
+      ...hangerHoleKeys
+        .filter((hole) => hole.key === key)
+        .map(({ point }) =>
+          holeMarkup(point, HANGER_HOLE_DIAMETER_MM, layers, kerfMm)
+        ),
+    ],
+    labels: (key) => [
+      ...segments
+        .filter((segment) => (segment.maskId ?? "") === key)
+        .filter((s) => s.text && s.text.trim().length > 0)
+        .map((segment) => labelMarkup(segment, fonts, layers)),
+      qr && qrModules && qrKey === key ? qrMarkup(qr, qrModules) : "",
+    ],
+    outline: (key) =>
+      masks
+        .filter((mask) => mask.id === key)
+        .map((mask) => ringsPath([mask.points, ...(mask.holes ?? [])])),
+  };
 
-  const segmentLabels = segments
-    .filter((s) => s.text && s.text.trim().length > 0)
-    .map((segment) => {
-      const midX = (segment.start.x + segment.end.x) / 2;
-      const midY = (segment.start.y + segment.end.y) / 2;
-      const angle = Math.atan2(
-        segment.end.y - segment.start.y,
-        segment.end.x - segment.start.x
-      );
-      const rotate = (angle * 180) / Math.PI;
-      const fontSizeMm = pxToMm(8); // match canvas text sizing
-      const text = segment.text
-        ? segment.text
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;")
-        : "";
-      return `<text x="${pxToMm(midX).toFixed(2)}" y="${pxToMm(midY).toFixed(
-        2
-      )}" fill="${secondaryStroke}" text-anchor="middle" dominant-baseline="middle" transform="rotate(${rotate.toFixed(
-        2
-      )} ${pxToMm(midX).toFixed(2)} ${pxToMm(midY).toFixed(
-        2
-      )})" font-size="${fontSizeMm.toFixed(3)}mm">${text}</text>`;
-    })
+  const layerGroups = exportLayerOrder(layers)
+    .map((kind) =>
+      layerGroup(
+        kind,
+        layers,
+        kind === "registration"
+          ? registrationMarkup(width, height)
+          : ornamentKeys
+              .map((key, index) => {
+                const content = ornamentContent[kind](key).filter(Boolean);
+                return content.length
+                  ? `<g id="ornament-${index + 1}-${kind}">
+    ${content.join("\n")}
+  </g>`
+                  : "";
+              })
+              .filter(Boolean)
+              .join("\n")
+      )
+    )
     .join("\n");
 
-  return `
-<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}mm" height="${svgHeight}mm" viewBox="0 0 ${svgWidth} ${svgHeight}" style="background: transparent">
-  <g fill="none" stroke="${primaryStroke}" stroke-width="${pxToMm(0.5).toFixed(
-    2
-  )}">
-    ${polygonPaths}
-  </g>
-  ${holes}
-  ${segmentLabels}
-</svg>
-`.trim();
+  return svgDocument(pxToMm(width), pxToMm(height), layerGroups);
+}
+
+const PIECE_NUMBER_SIZE_MM = 2.5;
+
+/**
+ * The cut layout: pieces packed onto sheets by nestPieces, one SVG per
+ * sheet. Each piece carries its holes, label and QR code along through one
+ * transform and gets its number engraved where there is room, upright on
+ * the sheet. Outlines are left out; they only make sense assembled.
+ */
+export function generateNestedSVG(
+  polygons: Polygon[],
+  connectors: LineSegment[],
+  segments: LineSegment[],
+  holeDiameterMm: number,
+  material: Material,
+  hanger: Hanger | null,
+  qr: EngravedQrCode | null,
+  layers: ExportLayers,
+  fonts: LabelFonts,
+  layout: CutLayout,
+  kerfMm = 0
+): NestedExport {
+  // Pack the outlines as cut, so the spacing holds between kerf paths.
+  const cutPolygons = compensateKerf(
+    polygons,
+    layerKerf(layers.pieces, kerfMm)
+  );
+  const nesting = nestPieces(cutPolygons, layout);
+  const holes = [
+    ...connectorHoleCuts(connectors, holeDiameterMm, material),
+    ...(hanger ? hangerHoles(hanger) : []).map((point) => ({
+      point,
+      diameterMm: HANGER_HOLE_DIAMETER_MM,
+    })),
+  ];
+  const labelled = segments.filter(
+    (segment) => segment.text && segment.text.trim().length > 0
+  );
+  const qrModules = qr ? encodeQrCode(qr.text) : null;
+
+  const pieceContent = (
+    placement: PiecePlacement
+  ): Record<Exclude<ExportLayerKind, "registration">, string[]> => {
+    const piece = cutPolygons[placement.piece];
+    const inside = (point: Point) => isPointInsideMask(point, piece);
+    const labels = labelled.filter((segment) =>
+      inside({
+        x: (segment.start.x + segment.end.x) / 2,
+        y: (segment.start.y + segment.end.y) / 2,
+      })
+    );
+    const at = pieceNumberPoint(piece, labels);
+    const radians = (-placement.angle * Math.PI) / 180;
+    const reach = mmToPx(PIECE_NUMBER_SIZE_MM);
+    const pieceNumber: LineSegment = {
+      id: `piece-${placement.piece + 1}`,
+      start: {
+        x: at.x - Math.cos(radians) * reach,
+        y: at.y - Math.sin(radians) * reach,
+      },
+      end: {
+        x: at.x + Math.cos(radians) * reach,
+        y: at.y + Math.sin(radians) * reach,
+      },
+      text: String(placement.piece + 1),
+      fontSize: PIECE_NUMBER_SIZE_MM,
+    };
+    return {
+      pieces: [ringsPath([piece.points, ...(piece.holes ?? [])])],
+      holes: holes
+        .filter((hole) => inside(hole.point))
+        .map(({ point, diameterMm }) =>
+          holeMarkup(point, diameterMm, layers, kerfMm)
+        ),
+      labels: [
+        ...labels.map((segment) => labelMarkup(segment, fonts, layers)),
+        labelMarkup(pieceNumber, fonts, layers),
+        qr && qrModules && inside(qr.point) ? qrMarkup(qr, qrModules) : "",
+      ],
+      outline: [],
+    };
+  };
+
+  const sheetWidth = mmToPx(layout.sheetWidth);
+  const sheetHeight = mmToPx(layout.sheetHeight);
+  const sheets = Array.from({ length: nesting.sheetCount }, (_, sheet) => {
+    const placed = nesting.placements
+      .filter((placement) => placement.sheet === sheet)
+      .map((placement) => ({ placement, content: pieceContent(placement) }));
+    const layerGroups = exportLayerOrder(layers)
+      .filter((kind) => kind !== "outline")
+      .map((kind) =>
+        layerGroup(
+          kind,
+          layers,
+          kind === "registration"
+            ? registrationMarkup(sheetWidth, sheetHeight)
+            : placed
+                .map(({ placement, content }) => {
+                  const items = content[kind].filter(Boolean);
+                  return items.length
+                    ? `<g id="piece-${
+                        placement.piece + 1
+                      }-${kind}" transform="translate(${pxToMm(
+                        placement.x
+                      ).toFixed(3)} ${pxToMm(placement.y).toFixed(3)}) rotate(${
+                        placement.angle
+                      })">
+    ${items.join("\n")}
+  </g>`
+                    : "";
+                })
+                .filter(Boolean)
+                .join("\n")
+        )
+      )
+      .join("\n");
+    return svgDocument(layout.sheetWidth, layout.sheetHeight, layerGroups);
+  });
+
+  return { sheets, unplaced: nesting.unplaced.length };
 }
@@ -0,0 +1,654 @@
+import type { MaskPolygon, Point } from "../types";
+import { isPointInsideMask } from "./segments";
+import { mmToPx, pxToMm } from "./units";
+
+// The parts of a DOM Element the importer reads, so it works on DOMParser
+// output.
+export interface SvgElementLike {
+  tagName: string;
+  getAttribute(name: string): string | null;
+  readonly children: ArrayLike<SvgElementLike>;
+}
+
+// Affine transform [a, b, c, d, e, f] as in SVG's matrix().
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Curves and arcs are flattened to points about this far apart, in scene px.
+const FLATTEN_STEP_PX = 4;
+const MAX_CURVE_POINTS = 64;
+const MIN_POINT_GAP_PX = 0.5;
+// Without a physical size, user units are CSS px at 96 per inch.
+const MM_PER_CSS_PX = 25.4 / 96;
+const MM_PER_UNIT: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  px: MM_PER_CSS_PX,
+  "": MM_PER_CSS_PX,
+};
+const SKIPPED_ELEMENTS = new Set([
+  "defs",
+  "clippath",
+  "mask",
+  "symbol",
+  "pattern",
+  "marker",
+  "metadata",
+  "title",
+  "desc",
+  "style",
+  "script",
+]);
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, point: Point): Point {
+  return {
+    x: m[0] * point.x + m[2] * point.y + m[4],
+    y: m[1] * point.x + m[3] * point.y + m[5],
+  };
+}
+
+function numbersIn(value: string) {
+  return (value.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? []).map(
+    Number
+  );
+}
+
+function parseTransform(value: string | null): Matrix {
+  let result = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  for (const [, name, args] of (value ?? "").matchAll(pattern)) {
+    const n = numbersIn(args);
+    let next: Matrix = IDENTITY;
+    if (name === "matrix" && n.length >= 6) {
+      next = [n[0], n[1], n[2], n[3], n[4], n[5]];
+    } else if (name === "translate") {
+      next = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+    } else if (name === "scale") {
+      next = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+    } else if (name === "rotate") {
+      const angle = ((n[0] ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+      next = multiply(
+        multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]),
+        [1, 0, 0, 1, -cx, -cy]
+      );
+    } else if (name === "skewX") {
+      next = [1, 0, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+    } else if (name === "skewY") {
+      next = [1, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+    }
+    result = multiply(result, next);
+  }
+  return result;
+}
+
+function parseLength(value: string | null) {
+  const match = value
+    ?.trim()
+    .match(
+      /^([-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?)\s*(mm|cm|in|pt|pc|px)?$/
+    );
+  if (!match) return null;
+  return Number(match[1]) * MM_PER_UNIT[match[2] ?? ""];
+}
+
+// Maps the root's user units to scene px through its physical size and
+// viewBox.
+function rootMatrix(root: SvgElementLike): Matrix {
+  const viewBox = numbersIn(root.getAttribute("viewBox") ?? "");
+  const widthMm = parseLength(root.getAttribute("width"));
+  const heightMm = parseLength(root.getAttribute("height"));
+  let sx = MM_PER_CSS_PX;
+  let sy = MM_PER_CSS_PX;
+  let [minX, minY] = [0, 0];
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    [minX, minY] = viewBox;
+    if (widthMm) sx = widthMm / viewBox[2];
+    if (heightMm) sy = heightMm / viewBox[3];
+    if (widthMm && !heightMm) sy = sx;
+    if (heightMm && !widthMm) sx = sy;
+  }
+  return [mmToPx(sx), 0, 0, mmToPx(sy), -minX * mmToPx(sx), -minY * mmToPx(sy)];
+}
+
+// Scale a matrix applies to lengths, for choosing how finely to flatten.
+const matrixScale = (m: Matrix) =>
+  Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+function curvePointCount(points: Point[]) {
+  let length = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    length += Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].y - points[i - 1].y
+    );
+  }
+  return Math.min(
+    Math.max(Math.ceil(length / FLATTEN_STEP_PX), 1),
+    MAX_CURVE_POINTS
+  );
+}
+
+// Points along a cubic (four controls) or quadratic (three) Bézier, after
+// the first.
+function flattenBezier(controls: Point[]): Point[] {
+  const count = curvePointCount(controls);
+  const points: Point[] = [];
+  for (let i = 1; i <= count; i += 1) {
+    const t = i / count;
+    const u = 1 - t;
+    if (controls.length === 4) {
+      const [p0, p1, p2, p3] = controls;
+      points.push({
+        x:
+          u * u * u * p0.x +
+          3 * u * u * t * p1.x +
+          3 * u * t * t * p2.x +
+          t * t * t * p3.x,
+        y:
+          u * u * u * p0.y +
+          3 * u * u * t * p1.y +
+          3 * u * t * t * p2.y +
+          t * t * t * p3.y,
+      });
+    } else {
+      const [p0, p1, p2] = controls;
+      points.push({
+        x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+        y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+      });
+    }
+  }
+  return points;
+}
+
+// Points along an elliptical arc in user units, after the first, using the
+// endpoint-to-centre conversion from the SVG spec.
+function flattenArc(
+  from: Point,
+  rx: number,
+  ry: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point,
+  scale: number
+): Point[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (!rx || !ry) return [to];
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor =
+    (largeArc === sweep ? -1 : 1) *
+    Math.sqrt(Math.max(numerator / denominator, 0));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+  const angle = (ux: number, uy: number) => Math.atan2(uy, ux);
+  const start = angle((x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((-x1 - cx1) / rx, (-y1 - cy1) / ry) - start;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+
+  const count = Math.min(
+    Math.max(
+      Math.ceil((Math.abs(delta) * Math.max(rx, ry) * scale) / FLATTEN_STEP_PX),
+      2
+    ),
+    MAX_CURVE_POINTS
+  );
+  const points: Point[] = [];
+  for (let i = 1; i <= count; i += 1) {
+    const theta = start + (delta * i) / count;
+    const ex = rx * Math.cos(theta);
+    const ey = ry * Math.sin(theta);
+    points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  return points;
+}
+
+/**
+ * Flatten path data into rings in scene px; each subpath becomes one ring.
+ */
+function parsePathData(d: string, m: Matrix): Point[][] {
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+  let offset = 0;
+  let current = { x: 0, y: 0 };
+  let subpathStart = current;
+  let lastControl: Point | null = null;
+  let lastCommand = "";
+
+  const skipSeparators = () => {
+    while (offset < d.length && /[\s,]/.test(d[offset])) offset += 1;
+  };
+  const readNumber = () => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/.exec(
+      d.slice(offset)
+    );
+    if (!match) throw new Error(`Bad path data near "${d.slice(offset)}"`);
+    offset += match[0].length;
+    return Number(match[0]);
+  };
+  // Arc flags may be written without separators, as in "a5 5 0 106 0".
+  const readFlag = () => {
+    skipSeparators();
+    const flag = d[offset];
+    if (flag !== "0" && flag !== "1") throw new Error("Bad arc flag");
+    offset += 1;
+    return flag === "1";
+  };
+  const hasNumber = () => {
+    skipSeparators();
+    return offset < d.length && /[-+.\d]/.test(d[offset]);
+  };
+  const flush = () => {
+    if (ring.length >= 3) rings.push(ring);
+    ring = [];
+  };
+
+  while (offset < d.length) {
+    skipSeparators();
+    if (offset >= d.length) break;
+    let command = d[offset];
+    if (/[a-zA-Z]/.test(command)) {
+      offset += 1;
+    } else if (lastCommand) {
+      // Repeated arguments repeat the command; after a move they are lines.
+      command =
+        lastCommand === "M" ? "L" : lastCommand === "m" ? "l" : lastCommand;
+    } else {
+      throw new Error("Path data must start with a command");
+    }
+    const relative = command === command.toLowerCase();
+    const upper = command.toUpperCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const readPoint = () => {
+      const x = readNumber();
+      const y = readNumber();
+      return { x: base.x + x, y: base.y + y };
+    };
+    const lineTo = (point: Point) => {
+      ring.push(apply(m, point));
+      current = point;
+    };
+
+    // Drawing straight after a close path starts again from its start.
+    if (!ring.length && upper !== "M" && upper !== "Z") {
+      ring.push(apply(m, current));
+    }
+
+    switch (upper) {
+      case "M": {
+        flush();
+        const point = readPoint();
+        ring = [apply(m, point)];
+        current = point;
+        subpathStart = point;
+        lastControl = null;
+        break;
+      }
+      case "L":
+        lineTo(readPoint());
+        lastControl = null;
+        break;
+      case "H": {
+        const x = readNumber();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        lastControl = null;
+        break;
+      }
+      case "V": {
+        const y = readNumber();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        lastControl = null;
+        break;
+      }
+      case "C":
+      case "S": {
+        const reflected: Point =
+          lastControl && /[CS]/i.test(lastCommand)
+            ? {
+                x: 2 * current.x - lastControl.x,
+                y: 2 * current.y - lastControl.y,
+              }
+            : current;
+        const c1 = upper === "C" ? readPoint() : reflected;
+        const c2 = readPoint();
+        const end = readPoint();
+        ring.push(
+          ...flattenBezier([current, c1, c2, end].map((p) => apply(m, p)))
+        );
+        current = end;
+        lastControl = c2;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const control: Point =
+          upper === "Q"
+            ? readPoint()
+            : lastControl && /[QT]/i.test(lastCommand)
+            ? {
+                x: 2 * current.x - lastControl.x,
+                y: 2 * current.y - lastControl.y,
+              }
+            : current;
+        const end = readPoint();
+        ring.push(
+          ...flattenBezier([current, control, end].map((p) => apply(m, p)))
+        );
+        current = end;
+        lastControl = control;
+        break;
+      }
+      case "A": {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const end = readPoint();
+        ring.push(
+          ...flattenArc(
+            current,
+            rx,
+            ry,
+            rotation,
+            largeArc,
+            sweep,
+            end,
+            matrixScale(m)
+          ).map((p) => apply(m, p))
+        );
+        current = end;
+        lastControl = null;
+        break;
+      }
+      case "Z":
+        flush();
+        current = subpathStart;
+        lastControl = null;
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+    lastCommand = command;
+    // A close path takes no arguments, so numbers after it are an error.
+    if (upper === "Z" && hasNumber()) {
+      throw new Error("Unexpected numbers after close path");
+    }
+  }
+  flush();
+  return rings;
+}
+
+function ellipseRing(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  m: Matrix
+): Point[] {
+  if (!(rx > 0) || !(ry > 0)) return [];
+  const circumference = Math.PI * (rx + ry) * matrixScale(m);
+  const count = Math.min(
+    Math.max(Math.ceil(circumference / FLATTEN_STEP_PX), 12),
+    MAX_CURVE_POINTS * 2
+  );
+  return Array.from({ length: count }, (_, i) => {
+    const theta = (i / count) * Math.PI * 2;
+    return apply(m, {
+      x: cx + rx * Math.cos(theta),
+      y: cy + ry * Math.sin(theta),
+    });
+  });
+}
+
+function shapeRings(
+  tag: string,
+  element: SvgElementLike,
+  m: Matrix
+): Point[][] {
+  const num = (name: string) => Number(element.getAttribute(name) ?? 0) || 0;
+  switch (tag) {
+    case "path":
+      return parsePathData(element.getAttribute("d") ?? "", m);
+    case "polygon":
+    case "polyline": {
+      const values = numbersIn(element.getAttribute("points") ?? "");
+      const ring: Point[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        ring.push(apply(m, { x: values[i], y: values[i + 1] }));
+      }
+      return [ring];
+    }
+    case "rect": {
+      const [x, y, w, h] = [num("x"), num("y"), num("width"), num("height")];
+      if (!(w > 0) || !(h > 0)) return [];
+      return [
+        [
+          { x, y },
+          { x: x + w, y },
+          { x: x + w, y: y + h },
+          { x, y: y + h },
+        ].map((p) => apply(m, p)),
+      ];
+    }
+    case "circle":
+      return [ellipseRing(num("cx"), num("cy"), num("r"), num("r"), m)];
+    case "ellipse":
+      return [ellipseRing(num("cx"), num("cy"), num("rx"), num("ry"), m)];
+    default:
+      return [];
+  }
+}
+
+function collectRings(
+  element: SvgElementLike,
+  parent: Matrix,
+  rings: Point[][]
+) {
+  const tag = element.tagName.toLowerCase().replace(/^svg:/, "");
+  if (SKIPPED_ELEMENTS.has(tag) || element.getAttribute("display") === "none") {
+    return;
+  }
+  const m = multiply(parent, parseTransform(element.getAttribute("transform")));
+  rings.push(...shapeRings(tag, element, m));
+  Array.from(element.children).forEach((child) =>
+    collectRings(child, m, rings)
+  );
+}
+
+function cleanRing(ring: Point[]) {
+  const cleaned: Point[] = [];
+  ring.forEach((point) => {
+    const prev = cleaned[cleaned.length - 1];
+    if (
+      !prev ||
+      Math.hypot(point.x - prev.x, point.y - prev.y) > MIN_POINT_GAP_PX
+    ) {
+      cleaned.push(point);
+    }
+  });
+  const first = cleaned[0];
+  const last = cleaned[cleaned.length - 1];
+  if (
+    cleaned.length > 1 &&
+    Math.hypot(first.x - last.x, first.y - last.y) <= MIN_POINT_GAP_PX
+  ) {
+    cleaned.pop();
+  }
+  return cleaned;
+}
+
+function ringArea(ring: Point[]) {
+  let area = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area / 2);
+}
+
+/**
+ * Read the shapes of an SVG document as outlines in scene px, at their
+ * physical size. Shapes nested inside another shape become its holes, and
+ * shapes inside those holes start new outlines.
+ */
+export function importSvgOutlines(root: SvgElementLike): MaskPolygon[] {
+  const rings: Point[][] = [];
+  collectRings(root, rootMatrix(root), rings);
+  const outlines = rings
+    .map(cleanRing)
+    .filter((ring) => ring.length >= 3)
+    .map((points) => ({ points, area: ringArea(points) }))
+    .filter(({ area }) => area > 0)
+    .sort((a, b) => b.area - a.area);
+
+  // Larger rings come first, so a ring's parent is the smallest earlier ring
+  // containing it.
+  const parents = outlines.map((ring, index) => {
+    for (let j = index - 1; j >= 0; j -= 1) {
+      if (
+        isPointInsideMask(ring.points[0], {
+          id: "",
+          points: outlines[j].points,
+        })
+      ) {
+        return j;
+      }
+    }
+    return -1;
+  });
+  const depth = (index: number): number =>
+    parents[index] === -1 ? 0 : depth(parents[index]) + 1;
+
+  const masks = new Map<number, MaskPolygon>();
+  outlines.forEach(({ points }, index) => {
+    if (depth(index) % 2 === 0) {
+      masks.set(index, { id: crypto.randomUUID(), points });
+      return;
+    }
+    const outer = masks.get(parents[index]);
+    if (outer) outer.holes = [...(outer.holes ?? []), points];
+  });
+  return [...masks.values()];
+}
+
+/**
+ * Parse SVG source with the browser's DOMParser and import its outlines.
+ * Throws when the source is not SVG.
+ */
+export function parseSvgOutlines(source: string): MaskPolygon[] {
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml");
+  const root = doc.documentElement;
+  if (
+    doc.getElementsByTagName("parsererror").length ||
+    root.tagName !== "svg"
+  ) {
+    throw new Error("Not an SVG document");
+  }
+  return importSvgOutlines(root);
+}
+
+/**
+ * Move outlines so their bounding box is centred on `centre`.
+ */
+export function centreOutlines(
+  masks: MaskPolygon[],
+  centre: Point
+): MaskPolygon[] {
+  const points = masks.flatMap((mask) => mask.points);
+  if (!points.length) return masks;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const dx = centre.x - (Math.min(...xs) + Math.max(...xs)) / 2;
+  const dy = centre.y - (Math.min(...ys) + Math.max(...ys)) / 2;
+  const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+  return masks.map((mask) => ({
+    ...mask,
+    points: mask.points.map(move),
+    ...(mask.holes ? { holes: mask.holes.map((hole) => hole.map(move)) } : {}),
+  }));
+}
+
+/**
+ * Place freshly imported outlines on the canvas, either replacing the
+ * existing outlines or appending to them. The canvas grows when the import
+ * is larger than it, keeping a margin so the outlines can still be grabbed;
+ * appended outlines are staggered so they don't land on an earlier import.
+ */
+export function placeImportedOutlines(
+  imported: MaskPolygon[],
+  existing: MaskPolygon[],
+  canvas: { canvasWidth: number; canvasHeight: number },
+  mode: "replace" | "append"
+): {
+  masks: MaskPolygon[];
+  placed: MaskPolygon[];
+  canvasWidth: number;
+  canvasHeight: number;
+} {
+  const margin = 10;
+  const points = imported.flatMap((mask) => mask.points);
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const extentX = points.length ? Math.max(...xs) - Math.min(...xs) : 0;
+  const extentY = points.length ? Math.max(...ys) - Math.min(...ys) : 0;
+  const canvasWidth = Math.max(
+    canvas.canvasWidth,
+    Math.ceil(pxToMm(extentX)) + margin * 2
+  );
+  const canvasHeight = Math.max(
+    canvas.canvasHeight,
+    Math.ceil(pxToMm(extentY)) + margin * 2
+  );
+  const width = mmToPx(canvasWidth);
+  const height = mmToPx(canvasHeight);
+  const stagger = mode === "append" ? existing.length * 24 : 0;
+  const slackX = Math.max(0, (width - extentX) / 2 - mmToPx(margin));
+  const slackY = Math.max(0, (height - extentY) / 2 - mmToPx(margin));
+  const placed = centreOutlines(imported, {
+    x: width / 2 + Math.min(stagger, slackX),
+    y: height / 2 + Math.min(stagger, slackY),
+  });
+  return {
+    masks: mode === "append" ? [...existing, ...placed] : placed,
+    placed,
+    canvasWidth,
+    canvasHeight,
+  };
+}
@@ -13,6 +13,31 @@ const TRACE_OPTIONS = {
   linefilter: true,
 };
 
+function brightness(color: { r: number; g: number; b: number; a: number }) {
+  return color.r + color.g + color.b + color.a;
+}
+
+function pathToPoints(path: any): Point[] {
+  if (!path || !path.segments || path.segments.length === 0) {
+    return [];
+  }
+
+  const points: Point[] = [];
+  path.segments.forEach((segment: any, segmentIndex: number) => {
+    if (segmentIndex === 0) {
+      points.push({
+        x: segment.x1,
+        y: segment.y1,
+      });
+    }
+    points.push({
+      x: segment.x2,
+      y: segment.y2,
+    });
+  });
+  return points;
+}
+
 export function traceBinaryBitmap(bitmap: BinaryBitmap): Polygon[] {
   const tracedOptions = TRACE_OPTIONS;
 
@@ -26,45 +51,34 @@ export function traceBinaryBitmap(bitmap: BinaryBitmap): Polygon[] {
       tracedOptions
     );
 
-    const polygons: Polygon[] = [];
-    const seen = new Set<string>();
-    traced.layers.forEach((layer: any[], layerIndex: number) => {
-      layer.forEach((path: any, pathIndex: number) => {
-        if (!path || !path.segments || path.segments.length === 0) {
-          return;
-        }
-
-        let points: Point[] = [];
-        path.segments.forEach((segment: any, segmentIndex: number) => {
-          if (segmentIndex === 0) {
-            points.push({
-              x: segment.x1,
-              y: segment.y1,
-            });
-          }
-          points.push({
-            x: segment.x2,
-            y: segment.y2,
-          });
-        });
+    // Only the brightest palette entry is foreground; its hole paths are the
+    // inner rings of the piece that lists them in `holechildren`.
+    const foregroundIndex = (traced.palette as any[]).reduce(
+      (best: number, color: any, index: number, palette: any[]) =>
+        brightness(color) > brightness(palette[best]) ? index : best,
+      0
+    );
+    const layer: any[] = traced.layers[foregroundIndex] ?? [];
 
-        if (points.length >= 3) {
-          const key = points
-            .map((p) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`)
-            .join("|");
-          if (seen.has(key)) {
-            return;
-          }
-          seen.add(key);
-          polygons.push({
-            id: `piece-${layerIndex}-${pathIndex}`,
-            points,
-          });
-        }
+    const polygons: Polygon[] = [];
+    layer.forEach((path: any, pathIndex: number) => {
+      if (!path || path.isholepath) {
+        return;
+      }
+      const points = pathToPoints(path);
+      if (points.length < 3) {
+        return;
+      }
+      const holes = ((path.holechildren ?? []) as number[])
+        .map((childIndex) => pathToPoints(layer[childIndex]))
+        .filter((hole) => hole.length >= 3);
+      polygons.push({
+        id: `piece-${foregroundIndex}-${pathIndex}`,
+        points,
+        ...(holes.length ? { holes } : {}),
       });
     });
 
-    polygons.shift();
     return polygons;
   } catch (error) {
     console.error("Failed to trace bitmap into polygons:", error);
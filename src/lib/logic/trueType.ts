@@ -0,0 +1,303 @@
+import type { Point } from "../types";
+
+// A closed glyph outline: from `start`, straight lines (no `control`) and
+// quadratic Béziers. Coordinates are font units with y pointing up.
+export interface GlyphContour {
+  start: Point;
+  segments: { control?: Point; to: Point }[];
+}
+
+export interface TrueTypeFont {
+  unitsPerEm: number;
+  // Height of capital letters, for centring text on a line.
+  capHeight: number;
+  glyphIndex(codePoint: number): number;
+  advance(glyph: number): number;
+  kerning(left: number, right: number): number;
+  contours(glyph: number): GlyphContour[];
+}
+
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+
+const ARG_WORDS = 0x0001;
+const ARGS_ARE_XY = 0x0002;
+const HAS_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const HAS_XY_SCALE = 0x0040;
+const HAS_2X2 = 0x0080;
+// Components nested deeper than this are treated as a broken font.
+const MAX_COMPOSITE_DEPTH = 8;
+
+type RawPoint = Point & { onCurve: boolean };
+
+function toContour(points: RawPoint[]): GlyphContour | null {
+  if (points.length < 2) return null;
+  const mid = (a: Point, b: Point) => ({
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+  });
+  // Start on an on-curve point; two off-curve points in a row imply an
+  // on-curve point halfway between them.
+  const firstOn = points.findIndex((point) => point.onCurve);
+  const ordered =
+    firstOn === -1
+      ? [
+          { ...mid(points[0], points[points.length - 1]), onCurve: true },
+          ...points,
+        ]
+      : [...points.slice(firstOn), ...points.slice(0, firstOn)];
+  const start = ordered[0];
+  const segments: GlyphContour["segments"] = [];
+  let control: Point | null = null;
+  for (let i = 1; i <= ordered.length; i += 1) {
+    const point = ordered[i % ordered.length];
+    if (point.onCurve) {
+      segments.push(control ? { control, to: point } : { to: point });
+      control = null;
+    } else if (control) {
+      const implied = mid(control, point);
+      segments.push({ control, to: implied });
+      control = point;
+    } else {
+      control = point;
+    }
+  }
+  return { start: { x: start.x, y: start.y }, segments };
+}
+
+/**
+ * Read the glyph outlines, metrics and pair kerning of a TrueType font
+ * (glyf outlines; CFF-flavoured OpenType is not supported). Throws on fonts
+ * it cannot read.
+ */
+export function parseTrueTypeFont(buffer: ArrayBuffer): TrueTypeFont {
+  const view = new DataView(buffer);
+  const tables = new Map<string, number>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i += 1) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      ...Array.from({ length: 4 }, (_, k) => view.getUint8(record + k))
+    );
+    tables.set(tag, view.getUint32(record + 8));
+  }
+  const table = (tag: string) => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`Font has no ${tag} table`);
+    return offset;
+  };
+
+  const head = table("head");
+  const unitsPerEm = view.getUint16(head + 18);
+  const longOffsets = view.getInt16(head + 50) === 1;
+  const numGlyphs = view.getUint16(table("maxp") + 4);
+  const numberOfHMetrics = view.getUint16(table("hhea") + 34);
+  const hmtx = table("hmtx");
+  const loca = table("loca");
+  const glyf = table("glyf");
+
+  const os2 = tables.get("OS/2");
+  const capHeight =
+    os2 !== undefined && view.getUint16(os2) >= 2
+      ? view.getInt16(os2 + 88)
+      : unitsPerEm * 0.7;
+
+  // Character map: prefer the full Unicode (format 12) subtable.
+  const cmap = table("cmap");
+  let format4: number | null = null;
+  let format12: number | null = null;
+  for (let i = 0; i < view.getUint16(cmap + 2); i += 1) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const subtable = cmap + view.getUint32(record + 4);
+    const unicode = platform === 0 || (platform === 3 && encoding !== 0);
+    if (!unicode) continue;
+    const format = view.getUint16(subtable);
+    if (format === 12) format12 = subtable;
+    if (format === 4) format4 = subtable;
+  }
+  if (format4 === null && format12 === null) {
+    throw new Error("Font has no Unicode character map");
+  }
+
+  const glyphIndex = (codePoint: number) => {
+    if (format12 !== null) {
+      const groups = view.getUint32(format12 + 12);
+      for (let i = 0; i < groups; i += 1) {
+        const group = format12 + 16 + i * 12;
+        const first = view.getUint32(group);
+        if (codePoint < first) break;
+        if (codePoint <= view.getUint32(group + 4)) {
+          return view.getUint32(group + 8) + codePoint - first;
+        }
+      }
+      return 0;
+    }
+    if (format4 === null || codePoint > 0xffff) return 0;
+    const segCount = view.getUint16(format4 + 6) / 2;
+    const ends = format4 + 14;
+    const starts = ends + segCount * 2 + 2;
+    const deltas = starts + segCount * 2;
+    const rangeOffsets = deltas + segCount * 2;
+    for (let i = 0; i < segCount; i += 1) {
+      if (view.getUint16(ends + i * 2) < codePoint) continue;
+      const first = view.getUint16(starts + i * 2);
+      if (codePoint < first) return 0;
+      const delta = view.getUint16(deltas + i * 2);
+      const rangeOffset = view.getUint16(rangeOffsets + i * 2);
+      if (!rangeOffset) return (codePoint + delta) & 0xffff;
+      const glyph = view.getUint16(
+        rangeOffsets + i * 2 + rangeOffset + (codePoint - first) * 2
+      );
+      return glyph ? (glyph + delta) & 0xffff : 0;
+    }
+    return 0;
+  };
+
+  const advance = (glyph: number) =>
+    view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  // Legacy `kern` table, format 0 horizontal subtables only.
+  const kernPairs = new Map<number, number>();
+  const kern = tables.get("kern");
+  if (kern !== undefined && view.getUint16(kern) === 0) {
+    let subtable = kern + 4;
+    for (let i = 0; i < view.getUint16(kern + 2); i += 1) {
+      const length = view.getUint16(subtable + 2);
+      const coverage = view.getUint16(subtable + 4);
+      if (coverage >> 8 === 0 && (coverage & 0x1) === 1) {
+        const pairs = view.getUint16(subtable + 6);
+        for (let k = 0; k < pairs; k += 1) {
+          const pair = subtable + 14 + k * 6;
+          kernPairs.set(view.getUint32(pair), view.getInt16(pair + 4));
+        }
+      }
+      subtable += length;
+    }
+  }
+  const kerning = (left: number, right: number) =>
+    kernPairs.get(left * 0x10000 + right) ?? 0;
+
+  const glyphRange = (glyph: number): [number, number] => {
+    if (glyph < 0 || glyph >= numGlyphs) return [0, 0];
+    const at = (index: number) =>
+      longOffsets
+        ? view.getUint32(loca + index * 4)
+        : view.getUint16(loca + index * 2) * 2;
+    return [glyf + at(glyph), glyf + at(glyph + 1)];
+  };
+
+  const readPoints = (glyph: number, depth: number): RawPoint[][] => {
+    const [start, end] = glyphRange(glyph);
+    if (start >= end || depth > MAX_COMPOSITE_DEPTH) return [];
+    const contourCount = view.getInt16(start);
+    if (contourCount >= 0) {
+      const endPoints = Array.from({ length: contourCount }, (_, i) =>
+        view.getUint16(start + 10 + i * 2)
+      );
+      const pointCount = contourCount ? endPoints[contourCount - 1] + 1 : 0;
+      let offset = start + 10 + contourCount * 2;
+      offset += 2 + view.getUint16(offset);
+      const flags: number[] = [];
+      while (flags.length < pointCount) {
+        const flag = view.getUint8(offset++);
+        flags.push(flag);
+        if (flag & REPEAT) {
+          for (let n = view.getUint8(offset++); n > 0; n -= 1) flags.push(flag);
+        }
+      }
+      const readAxis = (short: number, sameOrPositive: number) => {
+        let value = 0;
+        return flags.map((flag) => {
+          if (flag & short) {
+            const delta = view.getUint8(offset++);
+            value += flag & sameOrPositive ? delta : -delta;
+          } else if (!(flag & sameOrPositive)) {
+            value += view.getInt16(offset);
+            offset += 2;
+          }
+          return value;
+        });
+      };
+      const xs = readAxis(X_SHORT, X_SAME_OR_POSITIVE);
+      const ys = readAxis(Y_SHORT, Y_SAME_OR_POSITIVE);
+      return endPoints.map((last, i) => {
+        const first = i ? endPoints[i - 1] + 1 : 0;
+        return xs.slice(first, last + 1).map((x, k) => ({
+          x,
+          y: ys[first + k],
+          onCurve: Boolean(flags[first + k] & ON_CURVE),
+        }));
+      });
+    }
+
+    // Composite glyph: transformed copies of other glyphs.
+    const contours: RawPoint[][] = [];
+    let offset = start + 10;
+    let flags = MORE_COMPONENTS;
+    while (flags & MORE_COMPONENTS) {
+      flags = view.getUint16(offset);
+      const component = view.getUint16(offset + 2);
+      offset += 4;
+      let dx = 0;
+      let dy = 0;
+      if (flags & ARG_WORDS) {
+        dx = view.getInt16(offset);
+        dy = view.getInt16(offset + 2);
+        offset += 4;
+      } else {
+        dx = view.getInt8(offset);
+        dy = view.getInt8(offset + 1);
+        offset += 2;
+      }
+      // Point-matched placement is rare in practice; place those unmoved.
+      if (!(flags & ARGS_ARE_XY)) {
+        dx = 0;
+        dy = 0;
+      }
+      const f2dot14 = (at: number) => view.getInt16(at) / 0x4000;
+      let [a, b, c, d] = [1, 0, 0, 1];
+      if (flags & HAS_SCALE) {
+        a = d = f2dot14(offset);
+        offset += 2;
+      } else if (flags & HAS_XY_SCALE) {
+        a = f2dot14(offset);
+        d = f2dot14(offset + 2);
+        offset += 4;
+      } else if (flags & HAS_2X2) {
+        [a, b, c, d] = [0, 2, 4, 6].map((k) => f2dot14(offset + k));
+        offset += 8;
+      }
+      readPoints(component, depth + 1).forEach((contour) =>
+        contours.push(
+          contour.map((point) => ({
+            x: a * point.x + c * point.y + dx,
+            y: b * point.x + d * point.y + dy,
+            onCurve: point.onCurve,
+          }))
+        )
+      );
+    }
+    return contours;
+  };
+
+  const contourCache = new Map<number, GlyphContour[]>();
+  const contours = (glyph: number) => {
+    let cached = contourCache.get(glyph);
+    if (!cached) {
+      cached = readPoints(glyph, 0)
+        .map(toContour)
+        .filter((contour): contour is GlyphContour => contour !== null);
+      contourCache.set(glyph, cached);
+    }
+    return cached;
+  };
+
+  return { unitsPerEm, capHeight, glyphIndex, advance, kerning, contours };
+}
@@ -0,0 +1,46 @@
+// Scene coordinates are pixels at a fixed PX_PER_MM. Physical settings (mm),
+// the raster pipeline and SVG export all convert through this module.
+export const PX_PER_MM = 5;
+export const PX_PER_CM = PX_PER_MM * 10;
+
+export const DEFAULT_CANVAS_WIDTH_MM = 120;
+export const DEFAULT_CANVAS_HEIGHT_MM = 160;
+// Raster pixels per mm used by the distance-field pipeline.
+export const DEFAULT_RESOLUTION = 5;
+export const MIN_RESOLUTION = 1;
+export const MAX_RESOLUTION = 20;
+// Caps the bitmap so large canvases at high resolution stay within memory.
+const MAX_RASTER_PIXELS = 12_000_000;
+
+export function mmToPx(mm: number) {
+  return mm * PX_PER_MM;
+}
+
+export function pxToMm(px: number) {
+  return px / PX_PER_MM;
+}
+
+export interface RasterSize {
+  width: number;
+  height: number;
+  // Raster pixels per scene pixel.
+  scale: number;
+}
+
+export function rasterSize(
+  canvasWidthMm: number,
+  canvasHeightMm: number,
+  resolution: number
+): RasterSize {
+  const requested = Math.min(
+    Math.max(resolution, MIN_RESOLUTION),
+    MAX_RESOLUTION
+  );
+  const area = Math.max(canvasWidthMm * canvasHeightMm, 1);
+  const effective = Math.min(requested, Math.sqrt(MAX_RASTER_PIXELS / area));
+  return {
+    width: Math.max(1, Math.ceil(canvasWidthMm * effective)),
+    height: Math.max(1, Math.ceil(canvasHeightMm * effective)),
+    scale: effective / PX_PER_MM,
+  };
+}
@@ -0,0 +1,281 @@
+import { intersection } from "martinez-polygon-clipping";
+
+import type {
+  Hanger,
+  LineSegment,
+  Material,
+  Point,
+  Polygon,
+  ValidationIssue,
+} from "../types";
+import { applyCompressionOffset } from "./connectors";
+import { HANGER_HOLE_DIAMETER_MM, hangerHoles } from "./hanger";
+import { connectorFit } from "./materials";
+import { polygonToGeometry, toMultiPolygon } from "./polygonOffset";
+import { isPointInsideMask } from "./segments";
+import type { SettledPiece, SettleResult } from "./simulation";
+import { mmToPx, pxToMm } from "./units";
+
+// Material to leave between a hole and the edge of its piece or another hole,
+// so the laser does not cut through.
+const MIN_HOLE_MARGIN_MM = 0.5;
+// Overlaps smaller than this in the settled pose are solver jitter.
+const MIN_OVERLAP_MM2 = 1;
+
+export interface Hole {
+  // Absent for the hanger's ribbon holes.
+  connectorId?: string;
+  point: Point;
+  radius: number;
+}
+
+function distanceToSegment(point: Point, start: Point, end: Point) {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (!lengthSq) return Math.hypot(point.x - start.x, point.y - start.y);
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq
+    )
+  );
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+function distanceToBoundary(point: Point, polygon: Polygon) {
+  let min = Number.POSITIVE_INFINITY;
+  [polygon.points, ...(polygon.holes ?? [])].forEach((ring) => {
+    for (let i = 0; i < ring.length; i += 1) {
+      min = Math.min(
+        min,
+        distanceToSegment(point, ring[i], ring[(i + 1) % ring.length])
+      );
+    }
+  });
+  return min;
+}
+
+function formatMm(px: number) {
+  return `${pxToMm(px).toFixed(1)} mm`;
+}
+
+// Holes are cut where the connector ends sit, after the compression offset
+// pulls them together, at the size of each connector's ring; see generateSVG.
+export function connectorHoles(
+  connectors: LineSegment[],
+  holeDiameter: number,
+  material: Material
+): Hole[] {
+  return connectors.flatMap((connector) => {
+    const fit = connectorFit(connector, material, holeDiameter);
+    const adjusted = applyCompressionOffset(
+      connector,
+      mmToPx(fit.compressionOffset)
+    );
+    return [adjusted.start, adjusted.end].map((point) => ({
+      connectorId: connector.id,
+      point,
+      radius: mmToPx(fit.holeDiameter) / 2,
+    }));
+  });
+}
+
+function hangerHoleList(hanger: Hanger | null): Hole[] {
+  if (!hanger) return [];
+  const radius = mmToPx(HANGER_HOLE_DIAMETER_MM) / 2;
+  return hangerHoles(hanger).map((point) => ({ point, radius }));
+}
+
+function idsOf(...holes: Hole[]) {
+  const ids = holes
+    .map((hole) => hole.connectorId)
+    .filter((id): id is string => Boolean(id));
+  return ids.length ? { connectorIds: [...new Set(ids)] } : {};
+}
+
+/**
+ * Check the cut layout for holes, the hanger's included, too close to the
+ * edge of their piece or to each other. Holes that miss every piece are left
+ * to analyzeConnectivity.
+ */
+export function validateLayout(
+  pieces: Polygon[],
+  connectors: LineSegment[],
+  holeDiameter: number,
+  material: Material,
+  hanger: Hanger | null = null
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const margin = mmToPx(MIN_HOLE_MARGIN_MM);
+  const usable = pieces.filter((piece) => piece.points.length >= 3);
+  const holes = [
+    ...connectorHoles(connectors, holeDiameter, material),
+    ...hangerHoleList(hanger),
+  ];
+
+  holes.forEach((hole) => {
+    const { point, radius } = hole;
+    const piece = usable.find((candidate) =>
+      isPointInsideMask(point, candidate)
+    );
+    if (!piece) return;
+    const clearance = distanceToBoundary(point, piece) - radius;
+    if (clearance < margin) {
+      issues.push({
+        kind: "hole-edge",
+        severity: "warning",
+        message:
+          clearance < 0
+            ? "Hole cuts through the edge of its piece"
+            : `Hole is ${formatMm(clearance)} from the edge of its piece`,
+        point,
+        ...idsOf(hole),
+        pieceIds: [piece.id],
+      });
+    }
+  });
+
+  for (let i = 0; i < holes.length; i += 1) {
+    for (let j = i + 1; j < holes.length; j += 1) {
+      const a = holes[i];
+      const b = holes[j];
+      const gap =
+        Math.hypot(a.point.x - b.point.x, a.point.y - b.point.y) -
+        a.radius -
+        b.radius;
+      if (gap >= margin) continue;
+      issues.push({
+        kind: "hole-overlap",
+        severity: "warning",
+        message:
+          gap < 0
+            ? "Holes overlap each other"
+            : `Holes are only ${formatMm(gap)} apart`,
+        point: {
+          x: (a.point.x + b.point.x) / 2,
+          y: (a.point.y + b.point.y) / 2,
+        },
+        ...idsOf(a, b),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function rotate(point: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: point.x * cos - point.y * sin,
+    y: point.x * sin + point.y * cos,
+  };
+}
+
+// Maps designed coordinates of a piece to where it ends up, and back.
+function poseTransforms(pose: SettledPiece) {
+  const designed = {
+    x: pose.position.x - pose.displacement.x,
+    y: pose.position.y - pose.displacement.y,
+  };
+  const toSettled = (point: Point) => {
+    const turned = rotate(
+      { x: point.x - designed.x, y: point.y - designed.y },
+      pose.angle
+    );
+    return { x: turned.x + pose.position.x, y: turned.y + pose.position.y };
+  };
+  const toDesigned = (point: Point) => {
+    const turned = rotate(
+      { x: point.x - pose.position.x, y: point.y - pose.position.y },
+      -pose.angle
+    );
+    return { x: turned.x + designed.x, y: turned.y + designed.y };
+  };
+  return { toSettled, toDesigned };
+}
+
+function ringArea(ring: number[][]) {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i += 1) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(area / 2);
+}
+
+function boundsOverlap(a: Point[], b: Point[]) {
+  const xsA = a.map((p) => p.x);
+  const ysA = a.map((p) => p.y);
+  const xsB = b.map((p) => p.x);
+  const ysB = b.map((p) => p.y);
+  return (
+    Math.min(...xsA) <= Math.max(...xsB) &&
+    Math.min(...xsB) <= Math.max(...xsA) &&
+    Math.min(...ysA) <= Math.max(...ysB) &&
+    Math.min(...ysB) <= Math.max(...ysA)
+  );
+}
+
+/**
+ * Find pieces that overlap once the ornament has settled. Each issue is
+ * marked on the first piece of the pair, in its designed position.
+ */
+export function findSettledOverlaps(
+  pieces: Polygon[],
+  settled: SettleResult
+): ValidationIssue[] {
+  const poses = new Map(settled.pieces.map((pose) => [pose.id, pose]));
+  const placed = pieces.flatMap((piece) => {
+    const pose = poses.get(piece.id);
+    if (!pose || piece.points.length < 3) return [];
+    const transforms = poseTransforms(pose);
+    return [
+      {
+        piece,
+        transforms,
+        points: piece.points.map(transforms.toSettled),
+        holes: piece.holes?.map((hole) => hole.map(transforms.toSettled)),
+      },
+    ];
+  });
+
+  const issues: ValidationIssue[] = [];
+  const minArea = mmToPx(mmToPx(MIN_OVERLAP_MM2));
+  for (let i = 0; i < placed.length; i += 1) {
+    for (let j = i + 1; j < placed.length; j += 1) {
+      const a = placed[i];
+      const b = placed[j];
+      if (!boundsOverlap(a.points, b.points)) continue;
+      const overlap = toMultiPolygon(
+        intersection([polygonToGeometry(a)], [polygonToGeometry(b)])
+      );
+      let area = 0;
+      let largest: { ring: number[][]; area: number } | null = null;
+      for (const [outer, ...inner] of overlap) {
+        const outerArea = ringArea(outer);
+        area += outerArea - inner.reduce((sum, r) => sum + ringArea(r), 0);
+        if (!largest || outerArea > largest.area) {
+          largest = { ring: outer, area: outerArea };
+        }
+      }
+      if (!largest || area < minArea) continue;
+      const vertices = largest.ring.slice(0, -1);
+      const centre = {
+        x: vertices.reduce((sum, [x]) => sum + x, 0) / vertices.length,
+        y: vertices.reduce((sum, [, y]) => sum + y, 0) / vertices.length,
+      };
+      issues.push({
+        kind: "piece-overlap",
+        severity: "warning",
+        message: `Pieces overlap by ${pxToMm(pxToMm(area)).toFixed(
+          1
+        )} mm² once settled`,
+        point: a.transforms.toDesigned(centre),
+        pieceIds: [a.piece.id, b.piece.id],
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,135 @@
+import { intersection } from "martinez-polygon-clipping";
+
+import type { MaskPolygon, Point, Polygon } from "../types";
+import {
+  geometryToPolygons,
+  offsetGeometry,
+  polygonToGeometry,
+  toMultiPolygon,
+  type MultiPolygonGeometry,
+} from "./polygonOffset";
+
+export interface VectorPipelineOptions {
+  shrinkThreshold: number;
+  roundThreshold: number;
+  noiseAmplitude: number;
+  noise?: (x: number, y: number) => number;
+}
+
+export interface VectorPipelineLayer {
+  mask: MaskPolygon;
+  polygons: Polygon[];
+}
+
+const NOISE_SAMPLE_SPACING = 3;
+
+function signedArea(points: Point[]) {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+function resampleRing(points: Point[], spacing: number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing)
+    );
+    for (let s = 0; s < steps; s += 1) {
+      const t = s / steps;
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+  return result;
+}
+
+// Mirrors the raster pipeline, where noise is added to the outward distance
+// field: positive noise pulls the edge into the piece, negative pushes it out.
+function displaceRing(
+  points: Point[],
+  isHole: boolean,
+  options: VectorPipelineOptions,
+  maxOutward: number
+): Point[] {
+  const { noise, noiseAmplitude } = options;
+  if (!noise || noiseAmplitude <= 0 || points.length < 3) return points;
+
+  const ring = resampleRing(points, NOISE_SAMPLE_SPACING);
+  // Left-hand normals point into the ring for positive signed area; holes
+  // displace away from their own interior.
+  const orientation = (signedArea(ring) > 0 ? 1 : -1) * (isHole ? -1 : 1);
+  return ring.map((point, i) => {
+    const prev = ring[(i - 1 + ring.length) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const inward = {
+      x: (-dy / length) * orientation,
+      y: (dx / length) * orientation,
+    };
+    const amount = Math.max(
+      noise(point.x, point.y) * noiseAmplitude,
+      -maxOutward
+    );
+    return {
+      x: point.x + inward.x * amount,
+      y: point.y + inward.y * amount,
+    };
+  });
+}
+
+/**
+ * Raster-free alternative to rasterize → distance field → trace: shrink each
+ * Voronoi cell (clipped to its outline) by `shrinkThreshold`, grow it back by
+ * `roundThreshold` to round the corners, then apply the edge noise.
+ */
+export function computeVectorPiecePolygons(
+  layers: VectorPipelineLayer[],
+  options: VectorPipelineOptions
+): Polygon[] {
+  const { shrinkThreshold, roundThreshold } = options;
+  const gap = Math.max(shrinkThreshold - roundThreshold, 0) * 2;
+  const result: Polygon[] = [];
+
+  layers.forEach(({ mask, polygons }) => {
+    if (mask.points.length < 3) return;
+    const maskGeometry = [polygonToGeometry(mask)];
+
+    polygons.forEach((cell) => {
+      if (cell.points.length < 3) return;
+      const clipped = toMultiPolygon(
+        intersection([polygonToGeometry(cell)], maskGeometry)
+      );
+      if (!clipped.length) return;
+
+      const shrunk = offsetGeometry(clipped, -shrinkThreshold);
+      if (!shrunk.length) return;
+      const rounded: MultiPolygonGeometry = offsetGeometry(
+        shrunk,
+        roundThreshold
+      );
+
+      geometryToPolygons(rounded, `piece-${cell.id}`).forEach((piece) => {
+        const points = displaceRing(piece.points, false, options, gap / 4);
+        const holes = piece.holes?.map((hole) =>
+          displaceRing(hole, true, options, gap / 4)
+        );
+        result.push({
+          ...piece,
+          points,
+          ...(holes ? { holes } : {}),
+        });
+      });
+    });
+  });
+
+  return result;
+}
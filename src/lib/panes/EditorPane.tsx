@@ -4,6 +4,7 @@ import {
   useMemo,
   useRef,
   useState,
+  type CSSProperties,
   type KeyboardEvent as ReactKeyboardEvent,
   type PointerEvent as ReactPointerEvent,
 } from "react";
@@ -18,44 +19,104 @@ import {
 } from "../ui/CanvasPane";
 import { drawMetricRulers } from "../ui/metricGrid";
 import {
+  addMaskHole,
+  createDefaultMask,
+  findMaskAtPoint,
+  getMaskRing,
   hitTestMaskPoint,
   hitTestMaskSegment,
   insertPointIntoSegment,
   deleteMaskPoint,
+  mapMaskPoints,
+  maskRingCount,
+  resolveMaskId,
+  setMaskRing,
 } from "../logic/mask";
 import {
   createDefaultSegmentAtPoint,
   hitTestEndpoint,
   hitTestSegment,
+  isPointInsideMask,
   moveEndpoint,
   moveSegment,
 } from "../logic/segments";
 import {
+  applyCompressionOffset,
   createConnectorAtPoint,
   hitTestConnectorEndpoint,
   hitTestConnectorSegment,
   moveConnector,
   moveConnectorEndpoint,
-  mmToPx,
+  resizeConnectorFromStart,
 } from "../logic/connectors";
+import { autoConnect } from "../logic/autoConnect";
+import {
+  AUTO_TRACE_MAX_SIZE,
+  DEFAULT_AUTO_TRACE,
+  autoTraceOutline,
+  type AutoTraceOptions,
+} from "../logic/autoTrace";
+import {
+  createDefaultHanger,
+  HANGER_HOLE_DIAMETER_MM,
+  hangerHoles,
+  hangerPivot,
+  hitTestHanger,
+  mapHangerPoints,
+  withSecondPoint,
+} from "../logic/hanger";
+import {
+  createDefaultQrEngraving,
+  hitTestQrEngraving,
+} from "../logic/qrEngraving";
+import { loadLabelFonts } from "../logic/labelFonts";
+import {
+  connectorFit,
+  CUSTOM_MATERIAL_NAME,
+  MATERIALS,
+  minHoleDiameterFor,
+  RING_CATALOG,
+} from "../logic/materials";
+import {
+  BOLD_STROKE_EM,
+  LABEL_ALIGNS,
+  LABEL_FONT_FAMILIES,
+  labelStyle,
+  layoutLabel,
+  type LabelFonts,
+  type LabelStyle,
+} from "../logic/labelText";
+import { parseSvgOutlines, placeImportedOutlines } from "../logic/svgImport";
+import { MAX_RESOLUTION, MIN_RESOLUTION, mmToPx } from "../logic/units";
 import type {
+  Hanger,
+  LabelAlign,
+  LabelFontFamily,
   LineSegment,
   MaskPolygon,
+  Material,
+  PiecePipeline,
   Point,
+  QrEngraving,
   TreeDanglerState,
 } from "../types";
 
 interface DragInfo {
-  kind: "mask" | "segment" | "connector" | "pan-all";
+  kind: "mask" | "segment" | "connector" | "hanger" | "qr" | "pan-all";
   segmentIndex?: number;
   endpoint?: "start" | "end";
-  maskIndex?: number;
+  maskId?: string;
+  maskRing?: number;
+  maskPointIndex?: number;
+  hangerPoint?: "point" | "secondPoint";
   origin?: LineSegment;
   startPointer?: Point;
   snapshot?: {
-    maskPoints: Point[];
+    masks: MaskPolygon[];
     segments: LineSegment[];
     connectors: LineSegment[];
+    hanger: Hanger | null;
+    qrEngraving: QrEngraving | null;
   };
 }
 
@@ -63,22 +124,55 @@ export interface EditorPaneProps {
   width: number;
   height: number;
   className?: string;
+  style?: CSSProperties;
 }
 
+// The editable numbers of a material profile, in the order shown.
+const MATERIAL_FIELDS: {
+  key: Exclude<keyof Material, "name">;
+  label: string;
+  unit: string;
+  step: number;
+}[] = [
+  { key: "thickness", label: "Thickness", unit: "mm", step: 0.5 },
+  { key: "density", label: "Density", unit: "g/cm³", step: 0.05 },
+  { key: "wireDiameter", label: "Ring wire", unit: "mm", step: 0.1 },
+  { key: "ringInnerDiameter", label: "Ring inside", unit: "mm", step: 0.5 },
+];
+
 const ENDPOINT_RADIUS = 7.5;
 const CONNECTOR_ENDPOINT_RADIUS = 6;
 type EditorSnapshot = {
-  mask: MaskPolygon;
+  masks: MaskPolygon[];
   segments: LineSegment[];
   connectors: LineSegment[];
+  hanger: Hanger | null;
+  qrEngraving: QrEngraving | null;
   gap: number;
   round: number;
   noiseAmplitude: number;
   noiseSeed: number;
-  connectorLength: number;
+  material: Material;
   holeDiameter: number;
+  kerf: number;
+  pipeline: PiecePipeline;
+  canvasWidth: number;
+  canvasHeight: number;
+  resolution: number;
 };
 
+function traceRings(ctx: CanvasRenderingContext2D, rings: Point[][]) {
+  ctx.beginPath();
+  rings.forEach((ring) => {
+    if (!ring.length) return;
+    ctx.moveTo(ring[0].x, ring[0].y);
+    for (let i = 1; i < ring.length; i += 1) {
+      ctx.lineTo(ring[i].x, ring[i].y);
+    }
+    ctx.closePath();
+  });
+}
+
 function rotateConnectorNinetyDegrees(segment: LineSegment): LineSegment {
   const midX = (segment.start.x + segment.end.x) / 2;
   const midY = (segment.start.y + segment.end.y) / 2;
@@ -93,21 +187,36 @@ function rotateConnectorNinetyDegrees(segment: LineSegment): LineSegment {
   };
 }
 
-export function EditorPane({ width, height, className }: EditorPaneProps) {
+export function EditorPane({
+  width,
+  height,
+  className,
+  style,
+}: EditorPaneProps) {
   const {
     state: {
-      mask,
+      masks,
       segments,
       connectors,
+      hanger,
+      qrEngraving,
       piecePolygons,
       connectorLength,
+      material,
       holeDiameter,
+      kerf,
       gap,
       round,
       noiseAmplitude,
       noiseSeed,
+      pipeline,
+      canvasWidth,
+      canvasHeight,
+      resolution,
+      validationIssues,
     },
     dispatch,
+    qrTooLong,
   } = useTreeDanglerState();
 
   const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(
@@ -116,13 +225,24 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
   const [selectedConnectorId, setSelectedConnectorId] = useState<string | null>(
     null
   );
-  const [maskSelection, setMaskSelection] = useState<number | null>(null);
+  const [maskSelection, setMaskSelection] = useState<{
+    maskId: string;
+    ring: number;
+    pointIndex: number;
+  } | null>(null);
   const [dragInfo, setDragInfo] = useState<DragInfo | null>(null);
   const [labelEditor, setLabelEditor] = useState<{
     id: string;
     value: string;
+    style: LabelStyle;
   } | null>(null);
+  const [labelFonts, setLabelFonts] = useState<LabelFonts>({});
   const [panelOpen, setPanelOpen] = useState(false);
+  const [autoConnecting, setAutoConnecting] = useState(false);
+  // Why the last auto-connect run left some or all of the scene unchanged.
+  const [autoConnectNotice, setAutoConnectNotice] = useState<string | null>(
+    null
+  );
   const [lastClick, setLastClick] = useState<{
     id: string;
     timestamp: number;
@@ -138,7 +258,14 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
     height: number;
   } | null>(null);
   const backgroundUrlRef = useRef<string | null>(null);
+  const [autoTrace, setAutoTrace] =
+    useState<AutoTraceOptions>(DEFAULT_AUTO_TRACE);
   const dragUndoCapturedRef = useRef(false);
+  // The latest connectors, for checking after an auto-connect run.
+  const connectorsRef = useRef(connectors);
+  useEffect(() => {
+    connectorsRef.current = connectors;
+  }, [connectors]);
 
   const pxLength = mmToPx(connectorLength);
   const selectedConnector = useMemo(
@@ -147,6 +274,25 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       null,
     [connectors, selectedConnectorId]
   );
+  // What the selected connector's length and hole are without its overrides.
+  const connectorDefaults = useMemo(
+    () =>
+      selectedConnector
+        ? {
+            length: connectorFit(
+              { ...selectedConnector, length: undefined },
+              material,
+              holeDiameter
+            ).length,
+            holeDiameter: connectorFit(
+              { ...selectedConnector, holeDiameter: undefined },
+              material,
+              holeDiameter
+            ).holeDiameter,
+          }
+        : null,
+    [selectedConnector, material, holeDiameter]
+  );
 
   const setSegments = useCallback(
     (next: LineSegment[]) => dispatch({ type: "SET_SEGMENTS", payload: next }),
@@ -157,10 +303,37 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       dispatch({ type: "SET_CONNECTORS", payload: next }),
     [dispatch]
   );
+  const maskFor = useCallback(
+    (item: LineSegment) =>
+      masks.find((mask) => mask.id === resolveMaskId(masks, item)) ?? null,
+    [masks]
+  );
+  // Connectors with a ring of their own are not `pxLength` long.
+  const connectorPxLength = useCallback(
+    (connector: LineSegment) =>
+      mmToPx(connectorFit(connector, material, holeDiameter).length),
+    [material, holeDiameter]
+  );
+  // Keep a moved segment or connector with the outline it was dropped into.
+  const reassignMask = useCallback(
+    (item: LineSegment): LineSegment => {
+      const midpoint = {
+        x: (item.start.x + item.end.x) / 2,
+        y: (item.start.y + item.end.y) / 2,
+      };
+      const index = findMaskAtPoint(masks, midpoint);
+      if (index === -1 || masks[index].id === item.maskId) return item;
+      return { ...item, maskId: masks[index].id };
+    },
+    [masks]
+  );
   const updateDistanceConfig = useCallback(
     (
       patch: Partial<
-        Pick<TreeDanglerState, "gap" | "round" | "noiseAmplitude" | "noiseSeed">
+        Pick<
+          TreeDanglerState,
+          "gap" | "round" | "noiseAmplitude" | "noiseSeed" | "pipeline"
+        >
       >
     ) => {
       dispatch({ type: "SET_DISTANCE_CONFIG", payload: patch });
@@ -180,26 +353,46 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       }));
 
     return {
-      mask: { ...mask, points: clonePoints(mask.points) },
+      masks: masks.map((mask) => ({
+        ...mask,
+        points: clonePoints(mask.points),
+        ...(mask.holes ? { holes: mask.holes.map(clonePoints) } : {}),
+      })),
       segments: cloneSegments(segments),
       connectors: cloneSegments(connectors),
+      hanger: hanger ? mapHangerPoints(hanger, (p) => ({ ...p })) : null,
+      qrEngraving: qrEngraving
+        ? { ...qrEngraving, point: { ...qrEngraving.point } }
+        : null,
       gap,
       round,
       noiseAmplitude,
       noiseSeed,
-      connectorLength,
+      material,
       holeDiameter,
+      kerf,
+      pipeline,
+      canvasWidth,
+      canvasHeight,
+      resolution,
     };
   }, [
-    mask,
+    masks,
     segments,
     connectors,
+    hanger,
+    qrEngraving,
     gap,
     round,
     noiseAmplitude,
     noiseSeed,
-    connectorLength,
+    material,
     holeDiameter,
+    kerf,
+    pipeline,
+    canvasWidth,
+    canvasHeight,
+    resolution,
   ]);
   const pushUndoSnapshot = useCallback(() => {
     redoStackRef.current = [];
@@ -224,6 +417,305 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
     },
     [connectors, selectedConnectorId, setConnectors, pushUndoSnapshot]
   );
+  const setConnectorAnchor = useCallback(
+    (anchor: boolean) => {
+      if (!selectedConnectorId) return;
+      const index = connectors.findIndex(
+        (connector) => connector.id === selectedConnectorId
+      );
+      if (index === -1) return;
+      pushUndoSnapshot();
+      const next = connectors.slice();
+      const { anchor: _previous, ...rest } = next[index];
+      next[index] = anchor ? { ...rest, anchor } : rest;
+      setConnectors(next);
+    },
+    [connectors, selectedConnectorId, setConnectors, pushUndoSnapshot]
+  );
+  // Change what sizes the selected connector, then fit it to its new length.
+  const resizeSelectedConnector = useCallback(
+    (change: (connector: LineSegment) => LineSegment) => {
+      if (!selectedConnectorId) return;
+      const index = connectors.findIndex(
+        (connector) => connector.id === selectedConnectorId
+      );
+      if (index === -1) return;
+      pushUndoSnapshot();
+      const next = connectors.slice();
+      const updated = change(next[index]);
+      next[index] = resizeConnectorFromStart(
+        updated,
+        connectorPxLength(updated),
+        maskFor(updated)
+      );
+      setConnectors(next);
+    },
+    [
+      connectors,
+      connectorPxLength,
+      maskFor,
+      selectedConnectorId,
+      setConnectors,
+      pushUndoSnapshot,
+    ]
+  );
+  const setConnectorRing = useCallback(
+    (ring?: string) =>
+      resizeSelectedConnector(({ ring: _previous, ...rest }) =>
+        ring ? { ...rest, ring } : rest
+      ),
+    [resizeSelectedConnector]
+  );
+  // Without a value the connector follows its ring and the settings again.
+  const setConnectorSize = useCallback(
+    (key: "length" | "holeDiameter", value?: number) =>
+      resizeSelectedConnector(({ [key]: _previous, ...rest }) =>
+        value === undefined ? rest : { ...rest, [key]: value }
+      ),
+    [resizeSelectedConnector]
+  );
+  const setHanger = useCallback(
+    (next: Hanger | null) => dispatch({ type: "SET_HANGER", payload: next }),
+    [dispatch]
+  );
+  const handleToggleHanger = useCallback(() => {
+    pushUndoSnapshot();
+    setHanger(hanger ? null : createDefaultHanger(masks[0] ?? null));
+  }, [hanger, masks, pushUndoSnapshot, setHanger]);
+  const setQrEngraving = useCallback(
+    (next: QrEngraving | null) =>
+      dispatch({ type: "SET_QR_ENGRAVING", payload: next }),
+    [dispatch]
+  );
+  const handleToggleQrEngraving = useCallback(() => {
+    pushUndoSnapshot();
+    setQrEngraving(
+      qrEngraving ? null : createDefaultQrEngraving(piecePolygons)
+    );
+  }, [piecePolygons, pushUndoSnapshot, qrEngraving, setQrEngraving]);
+  const handleAddOutline = useCallback(() => {
+    pushUndoSnapshot();
+    // Stagger new outlines so they never land exactly on top of another one.
+    const offset = masks.length * 24;
+    const mask = createDefaultMask({
+      x: width / 2 + offset,
+      y: height / 2 + offset,
+    });
+    dispatch({ type: "SET_MASKS", payload: [...masks, mask] });
+    setMaskSelection({ maskId: mask.id, ring: 0, pointIndex: 0 });
+    setSelectedSegmentId(null);
+    setSelectedConnectorId(null);
+  }, [dispatch, height, masks, pushUndoSnapshot, width]);
+  // Replace the selected outline (or the first) with the largest shape in the
+  // background image, keeping its id so segments and connectors stay on it.
+  const handleAutoTrace = useCallback(() => {
+    if (!backgroundImage) return;
+    const target =
+      masks.find((mask) => mask.id === maskSelection?.maskId) ?? masks[0];
+    const traceScale = Math.min(
+      1,
+      AUTO_TRACE_MAX_SIZE /
+        Math.max(backgroundImage.width, backgroundImage.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(backgroundImage.width * traceScale));
+    canvas.height = Math.max(
+      1,
+      Math.round(backgroundImage.height * traceScale)
+    );
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(backgroundImage.image, 0, 0, canvas.width, canvas.height);
+    const traced = autoTraceOutline(
+      ctx.getImageData(0, 0, canvas.width, canvas.height),
+      autoTrace
+    );
+    if (!traced) {
+      console.warn("Auto-trace found no shape at this threshold");
+      return;
+    }
+    // Same placement as the background drawn in drawPane.
+    const scale = Math.min(
+      width / backgroundImage.width,
+      height / backgroundImage.height
+    );
+    const offsetX = (width - backgroundImage.width * scale) / 2;
+    const offsetY = (height - backgroundImage.height * scale) / 2;
+    const toScene = (point: Point) => ({
+      x: (point.x / traceScale) * scale + offsetX,
+      y: (point.y / traceScale) * scale + offsetY,
+    });
+    const { holes: _previous, ...rest } = target ?? {
+      id: crypto.randomUUID(),
+      points: [],
+    };
+    const mask: MaskPolygon = {
+      ...rest,
+      points: traced.points.map(toScene),
+      ...(traced.holes
+        ? { holes: traced.holes.map((hole) => hole.map(toScene)) }
+        : {}),
+    };
+    pushUndoSnapshot();
+    dispatch({
+      type: "SET_MASKS",
+      payload: target
+        ? masks.map((item) => (item.id === target.id ? mask : item))
+        : [mask],
+    });
+    setMaskSelection({ maskId: mask.id, ring: 0, pointIndex: 0 });
+  }, [
+    autoTrace,
+    backgroundImage,
+    dispatch,
+    height,
+    maskSelection,
+    masks,
+    pushUndoSnapshot,
+    width,
+  ]);
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  }, []);
+  // Dropped SVG files add their shapes as outlines next to the existing ones.
+  const handleDrop = useCallback(
+    async (event: React.DragEvent) => {
+      const file = Array.from(event.dataTransfer.files).find(
+        (item) => item.type === "image/svg+xml" || /\.svg$/i.test(item.name)
+      );
+      if (!file) return;
+      event.preventDefault();
+      try {
+        const outlines = parseSvgOutlines(await file.text());
+        if (!outlines.length) {
+          console.error("No closed shapes found in", file.name);
+          return;
+        }
+        pushUndoSnapshot();
+        const placement = placeImportedOutlines(
+          outlines,
+          masks,
+          { canvasWidth, canvasHeight },
+          "append"
+        );
+        if (
+          placement.canvasWidth !== canvasWidth ||
+          placement.canvasHeight !== canvasHeight
+        ) {
+          dispatch({
+            type: "SET_CANVAS",
+            payload: {
+              canvasWidth: placement.canvasWidth,
+              canvasHeight: placement.canvasHeight,
+            },
+          });
+        }
+        const { placed } = placement;
+        dispatch({ type: "SET_MASKS", payload: placement.masks });
+        setMaskSelection({ maskId: placed[0].id, ring: 0, pointIndex: 0 });
+        setSelectedSegmentId(null);
+        setSelectedConnectorId(null);
+      } catch (err) {
+        console.error("Failed to import SVG", err);
+      }
+    },
+    [canvasHeight, canvasWidth, dispatch, masks, pushUndoSnapshot]
+  );
+  const handleRemoveOutline = useCallback(() => {
+    if (!maskSelection || masks.length <= 1) return;
+    pushUndoSnapshot();
+    const removedId = maskSelection.maskId;
+    const keep = (item: LineSegment) =>
+      resolveMaskId(masks, item) !== removedId;
+    dispatch({
+      type: "SET_MASKS",
+      payload: masks.filter((mask) => mask.id !== removedId),
+    });
+    setSegments(segments.filter(keep));
+    setConnectors(connectors.filter(keep));
+    setMaskSelection(null);
+  }, [
+    connectors,
+    dispatch,
+    maskSelection,
+    masks,
+    pushUndoSnapshot,
+    segments,
+    setConnectors,
+    setSegments,
+  ]);
+  const handleAddHole = useCallback(() => {
+    const mask = masks.find((item) => item.id === maskSelection?.maskId);
+    if (!mask) return;
+    pushUndoSnapshot();
+    const updated = addMaskHole(mask);
+    dispatch({ type: "SET_MASK", payload: updated });
+    setMaskSelection({
+      maskId: mask.id,
+      ring: maskRingCount(updated) - 1,
+      pointIndex: 0,
+    });
+  }, [dispatch, maskSelection, masks, pushUndoSnapshot]);
+  const handleAutoConnect = useCallback(async () => {
+    if (autoConnecting || !piecePolygons.length) return;
+    setAutoConnecting(true);
+    setAutoConnectNotice(null);
+    try {
+      const result = await autoConnect(piecePolygons, connectors, {
+        connectorLength,
+        holeDiameter,
+        material,
+        width,
+        height,
+        hanger,
+      });
+      if (!result) {
+        setAutoConnectNotice(
+          "No outline has room for an anchor at its top; add an anchor connector or the hanger first"
+        );
+        return;
+      }
+      // The run yields between candidates, so connectors may have been
+      // edited meanwhile; the result would overwrite those edits.
+      if (connectorsRef.current !== connectors) {
+        setAutoConnectNotice(
+          "Connectors changed while auto-connecting; nothing was replaced"
+        );
+        return;
+      }
+      pushUndoSnapshot();
+      setConnectors(result.connectors);
+      setSelectedConnectorId(null);
+      if (result.unanchoredOutlines) {
+        setAutoConnectNotice(
+          `${result.unanchoredOutlines} ${
+            result.unanchoredOutlines === 1 ? "outline has" : "outlines have"
+          } no room for an anchor at the top and kept ${
+            result.unanchoredOutlines === 1 ? "its" : "their"
+          } connectors; add an anchor by hand`
+        );
+      }
+    } catch (err) {
+      console.error("Auto-connect failed", err);
+      setAutoConnectNotice("Auto-connect failed");
+    } finally {
+      setAutoConnecting(false);
+    }
+  }, [
+    autoConnecting,
+    connectorLength,
+    connectors,
+    hanger,
+    height,
+    holeDiameter,
+    material,
+    piecePolygons,
+    pushUndoSnapshot,
+    setConnectors,
+    width,
+  ]);
   const handleSliderPointerDown = useCallback(
     (event: ReactPointerEvent<HTMLInputElement>) => {
       if (event.button !== 0) return;
@@ -234,9 +726,11 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
 
   const restoreSnapshot = useCallback(
     (snapshot: EditorSnapshot) => {
-      dispatch({ type: "SET_MASK", payload: snapshot.mask });
+      dispatch({ type: "SET_MASKS", payload: snapshot.masks });
       dispatch({ type: "SET_SEGMENTS", payload: snapshot.segments });
       dispatch({ type: "SET_CONNECTORS", payload: snapshot.connectors });
+      dispatch({ type: "SET_HANGER", payload: snapshot.hanger });
+      dispatch({ type: "SET_QR_ENGRAVING", payload: snapshot.qrEngraving });
       dispatch({
         type: "SET_DISTANCE_CONFIG",
         payload: {
@@ -244,16 +738,23 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
           round: snapshot.round,
           noiseAmplitude: snapshot.noiseAmplitude,
           noiseSeed: snapshot.noiseSeed,
+          pipeline: snapshot.pipeline,
         },
       });
-      dispatch({
-        type: "SET_CONNECTOR_LENGTH",
-        payload: snapshot.connectorLength,
-      });
+      dispatch({ type: "SET_MATERIAL", payload: snapshot.material });
       dispatch({
         type: "SET_HOLE_DIAMETER",
         payload: snapshot.holeDiameter,
       });
+      dispatch({ type: "SET_KERF", payload: snapshot.kerf });
+      dispatch({
+        type: "SET_CANVAS",
+        payload: {
+          canvasWidth: snapshot.canvasWidth,
+          canvasHeight: snapshot.canvasHeight,
+          resolution: snapshot.resolution,
+        },
+      });
       setSelectedSegmentId(null);
       setSelectedConnectorId(null);
       setMaskSelection(null);
@@ -263,6 +764,16 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
     [dispatch]
   );
 
+  useEffect(() => {
+    let cancelled = false;
+    loadLabelFonts().then((fonts) => {
+      if (!cancelled) setLabelFonts(fonts);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   useEffect(() => {
     const handleExternalSnapshot = () => {
       pushUndoSnapshot();
@@ -385,64 +896,65 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         ctx.lineWidth = 1.5;
         piecePolygons.forEach((poly) => {
           if (poly.points.length < 3) return;
-          ctx.beginPath();
-          ctx.moveTo(poly.points[0].x, poly.points[0].y);
-          for (let i = 1; i < poly.points.length; i += 1) {
-            ctx.lineTo(poly.points[i].x, poly.points[i].y);
-          }
-          ctx.closePath();
-          ctx.fill();
+          traceRings(ctx, [poly.points, ...(poly.holes ?? [])]);
+          ctx.fill("evenodd");
+          ctx.stroke();
+        });
+      } else {
+        masks.forEach((mask) => {
+          if (mask.points.length < 3) return;
+          traceRings(ctx, [mask.points, ...(mask.holes ?? [])]);
+          ctx.fillStyle = "rgba(255,255,255,0.03)";
+          ctx.strokeStyle = "rgba(148, 163, 184, 0.25)";
+          ctx.lineWidth = 2;
+          ctx.fill("evenodd");
           ctx.stroke();
         });
-      } else if (mask.points.length >= 3) {
-        ctx.beginPath();
-        ctx.moveTo(mask.points[0].x, mask.points[0].y);
-        for (let i = 1; i < mask.points.length; i += 1) {
-          ctx.lineTo(mask.points[i].x, mask.points[i].y);
-        }
-        ctx.closePath();
-        ctx.fillStyle = "rgba(255,255,255,0.03)";
-        ctx.strokeStyle = "rgba(148, 163, 184, 0.25)";
-        ctx.lineWidth = 2;
-        ctx.fill();
-        ctx.stroke();
       }
 
       // Mask handles
-      if (mask.points.length) {
-        ctx.beginPath();
-        ctx.moveTo(mask.points[0].x, mask.points[0].y);
-        for (let i = 1; i < mask.points.length; i += 1) {
-          ctx.lineTo(mask.points[i].x, mask.points[i].y);
-        }
-        ctx.closePath();
+      masks.forEach((mask) => {
+        if (!mask.points.length) return;
+        traceRings(ctx, [mask.points, ...(mask.holes ?? [])]);
         ctx.strokeStyle = "rgba(16, 185, 129, 0.8)";
         ctx.lineWidth = 2;
         ctx.setLineDash([6, 4]);
         ctx.stroke();
         ctx.setLineDash([]);
 
-        mask.points.forEach((point, index) => {
-          ctx.beginPath();
-          ctx.arc(point.x, point.y, 6, 0, Math.PI * 2);
-          if (index === maskSelection) {
-            ctx.fillStyle = "#f0fdf4";
-            ctx.strokeStyle = "#10b981";
-            ctx.lineWidth = 2;
-          } else {
-            ctx.fillStyle = "#0f172a";
-            ctx.strokeStyle = "rgba(15, 118, 110, 0.9)";
-            ctx.lineWidth = 1.5;
-          }
-          ctx.fill();
-          ctx.stroke();
-        });
-      }
+        const rings = [mask.points, ...(mask.holes ?? [])];
+        rings.forEach((ring, ringIndex) =>
+          ring.forEach((point, index) => {
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, 6, 0, Math.PI * 2);
+            if (
+              maskSelection?.maskId === mask.id &&
+              maskSelection.ring === ringIndex &&
+              index === maskSelection.pointIndex
+            ) {
+              ctx.fillStyle = "#f0fdf4";
+              ctx.strokeStyle = "#10b981";
+              ctx.lineWidth = 2;
+            } else {
+              ctx.fillStyle = "#0f172a";
+              ctx.strokeStyle = "rgba(15, 118, 110, 0.9)";
+              ctx.lineWidth = 1.5;
+            }
+            ctx.fill();
+            ctx.stroke();
+          })
+        );
+      });
 
       // Segments
       segments.forEach((segment) => {
         const selected = segment.id === selectedSegmentId;
-        const hasText = !!segment.text;
+        // Preview the label as it is being edited.
+        const label =
+          labelEditor?.id === segment.id
+            ? { ...segment, ...labelEditor.style, text: labelEditor.value }
+            : segment;
+        const hasText = !!label.text;
         ctx.strokeStyle = selected ? "#fcd34d" : "#94a3b8";
         ctx.lineWidth = selected ? 4 : 2;
         ctx.beginPath();
@@ -505,21 +1017,54 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         drawTriangle(segment.start, false);
         drawTriangle(segment.end, true);
 
-        if (segment.text) {
-          const midX = (segment.start.x + segment.end.x) / 2;
-          const midY = (segment.start.y + segment.end.y) / 2;
-          const angle = Math.atan2(
-            segment.end.y - segment.start.y,
-            segment.end.x - segment.start.x
-          );
+        if (label.text) {
+          const style = labelStyle(label);
+          const font = labelFonts[style.fontFamily];
           ctx.save();
-          ctx.translate(midX, midY);
-          ctx.rotate(angle);
-          ctx.font = '14px "JetBrains Mono", monospace';
           ctx.fillStyle = selected ? "#fcd34d" : "#cbd5f5";
-          ctx.textAlign = "center";
-          ctx.textBaseline = "middle";
-          ctx.fillText(segment.text, 0, 0);
+          if (font) {
+            // The outlines the export will use.
+            const { contours, emSize } = layoutLabel(font, label);
+            ctx.beginPath();
+            contours.forEach(({ start, segments: parts }) => {
+              ctx.moveTo(start.x, start.y);
+              parts.forEach(({ control, to }) =>
+                control
+                  ? ctx.quadraticCurveTo(control.x, control.y, to.x, to.y)
+                  : ctx.lineTo(to.x, to.y)
+              );
+              ctx.closePath();
+            });
+            ctx.fill();
+            if (style.bold) {
+              ctx.strokeStyle = ctx.fillStyle;
+              ctx.lineWidth = emSize * BOLD_STROKE_EM;
+              ctx.lineJoin = "round";
+              ctx.stroke();
+            }
+          } else {
+            // Until the fonts load, the browser's own text is close enough.
+            const anchor =
+              style.align === "start"
+                ? segment.start
+                : style.align === "end"
+                ? segment.end
+                : {
+                    x: (segment.start.x + segment.end.x) / 2,
+                    y: (segment.start.y + segment.end.y) / 2,
+                  };
+            ctx.translate(anchor.x, anchor.y);
+            ctx.rotate(angle);
+            ctx.font = `${style.bold ? "bold " : ""}${mmToPx(
+              style.fontSize
+            )}px "${style.fontFamily}", sans-serif`;
+            ctx.textAlign =
+              style.align === "start" || style.align === "end"
+                ? style.align
+                : "center";
+            ctx.textBaseline = "middle";
+            ctx.fillText(label.text, 0, -mmToPx(style.offset));
+          }
           ctx.restore();
         }
       });
@@ -527,6 +1072,29 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       // Connectors
       connectors.forEach((segment) => {
         const selected = segment.id === selectedConnectorId;
+        const fit = connectorFit(segment, material, holeDiameter);
+        // The ring to scale, edge on across the middle of the connector.
+        const length = Math.hypot(
+          segment.end.x - segment.start.x,
+          segment.end.y - segment.start.y
+        );
+        if (length) {
+          const reach =
+            mmToPx(fit.ring.innerDiameter + fit.ring.wireDiameter) / 2;
+          const ux = (segment.end.x - segment.start.x) / length;
+          const uy = (segment.end.y - segment.start.y) / length;
+          const midX = (segment.start.x + segment.end.x) / 2;
+          const midY = (segment.start.y + segment.end.y) / 2;
+          ctx.strokeStyle = "rgba(148, 163, 184, 0.35)";
+          ctx.lineWidth = mmToPx(fit.ring.wireDiameter);
+          ctx.lineCap = "round";
+          ctx.beginPath();
+          ctx.moveTo(midX - ux * reach, midY - uy * reach);
+          ctx.lineTo(midX + ux * reach, midY + uy * reach);
+          ctx.stroke();
+          ctx.lineCap = "butt";
+        }
+
         ctx.strokeStyle = selected ? "#f97316" : "#e2e8f0";
         ctx.lineWidth = selected ? 4 : 2;
         ctx.beginPath();
@@ -543,6 +1111,46 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
           ctx.stroke();
         });
 
+        // The holes as they are cut, closer together for compression.
+        const cut = applyCompressionOffset(
+          segment,
+          mmToPx(fit.compressionOffset)
+        );
+        ctx.strokeStyle = selected ? "#f97316" : "#64748b";
+        ctx.lineWidth = 1;
+        [cut.start, cut.end].forEach((point) => {
+          ctx.beginPath();
+          ctx.arc(
+            point.x,
+            point.y,
+            mmToPx(fit.holeDiameter) / 2,
+            0,
+            Math.PI * 2
+          );
+          ctx.stroke();
+        });
+
+        if (segment.anchor) {
+          // Hook mark on the end the ornament hangs from.
+          const free = piecePolygons.length
+            ? [segment.start, segment.end].find(
+                (point) =>
+                  !piecePolygons.some((poly) => isPointInsideMask(point, poly))
+              )
+            : undefined;
+          ctx.strokeStyle = selected ? "#f97316" : "#34d399";
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.arc(
+            (free ?? segment.end).x,
+            (free ?? segment.end).y,
+            CONNECTOR_ENDPOINT_RADIUS + 4,
+            0,
+            Math.PI * 2
+          );
+          ctx.stroke();
+        }
+
         if (segment.mode === "compression") {
           const midX = (segment.start.x + segment.end.x) / 2;
           const midY = (segment.start.y + segment.end.y) / 2;
@@ -561,11 +1169,98 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         }
       });
 
+      // Hanger: ribbon from each hole up to the pivot.
+      if (hanger) {
+        const pivot = hangerPivot(hanger);
+        const holes = hangerHoles(hanger);
+        ctx.strokeStyle = "rgba(52, 211, 153, 0.7)";
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        holes.forEach((hole) => {
+          ctx.moveTo(hole.x, hole.y);
+          ctx.lineTo(pivot.x, pivot.y);
+        });
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = "#34d399";
+        ctx.beginPath();
+        ctx.arc(pivot.x, pivot.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = "#0f172a";
+        ctx.strokeStyle = "#34d399";
+        ctx.lineWidth = 2;
+        holes.forEach((hole) => {
+          ctx.beginPath();
+          ctx.arc(
+            hole.x,
+            hole.y,
+            Math.max(mmToPx(HANGER_HOLE_DIAMETER_MM) / 2, 6),
+            0,
+            Math.PI * 2
+          );
+          ctx.fill();
+          ctx.stroke();
+        });
+      }
+
+      // QR engraving: its outline and a handle at the centre.
+      if (qrEngraving) {
+        const half = mmToPx(qrEngraving.size) / 2;
+        const { x, y } = qrEngraving.point;
+        ctx.strokeStyle = "rgba(167, 139, 250, 0.8)";
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(x - half, y - half, half * 2, half * 2);
+        ctx.setLineDash([]);
+        ctx.fillStyle = "#a78bfa";
+        ctx.beginPath();
+        ctx.arc(x, y, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // Validation warnings
+      if (validationIssues.length) {
+        const flagged = new Set(
+          validationIssues.flatMap((issue) =>
+            issue.kind === "piece-overlap" || issue.kind === "unreachable-piece"
+              ? issue.pieceIds ?? []
+              : []
+          )
+        );
+        ctx.strokeStyle = "rgba(251, 113, 133, 0.8)";
+        ctx.lineWidth = 2;
+        ctx.setLineDash([4, 4]);
+        piecePolygons.forEach((poly) => {
+          if (!flagged.has(poly.id) || poly.points.length < 3) return;
+          traceRings(ctx, [poly.points, ...(poly.holes ?? [])]);
+          ctx.stroke();
+        });
+        ctx.setLineDash([]);
+        validationIssues.forEach((issue) => {
+          const info = issue.severity === "info";
+          ctx.fillStyle = info
+            ? "rgba(125, 211, 252, 0.15)"
+            : "rgba(251, 113, 133, 0.2)";
+          ctx.strokeStyle = info ? "#7dd3fc" : "#fb7185";
+          ctx.beginPath();
+          ctx.arc(
+            issue.point.x,
+            issue.point.y,
+            CONNECTOR_ENDPOINT_RADIUS + 5,
+            0,
+            Math.PI * 2
+          );
+          ctx.fill();
+          ctx.stroke();
+        });
+      }
+
       drawMetricRulers(ctx, width, height);
     },
     [
       connectors,
-      mask.points,
+      masks,
       maskSelection,
       piecePolygons,
       segments,
@@ -574,6 +1269,13 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       height,
       width,
       backgroundImage,
+      hanger,
+      qrEngraving,
+      validationIssues,
+      labelEditor,
+      labelFonts,
+      material,
+      holeDiameter,
     ]
   );
 
@@ -586,7 +1288,7 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
 
       if (isMiddleClick) {
         const snapshot = {
-          maskPoints: mask.points.map((pt) => ({ ...pt })),
+          masks: masks.map((mask) => mapMaskPoints(mask, (pt) => ({ ...pt }))),
           segments: segments.map((seg) => ({
             ...seg,
             start: { ...seg.start },
@@ -597,6 +1299,8 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
             start: { ...conn.start },
             end: { ...conn.end },
           })),
+          hanger,
+          qrEngraving,
         };
         setMaskSelection(null);
         setSelectedSegmentId(null);
@@ -611,31 +1315,81 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         return;
       }
 
-      // Mask point?
-      const maskIdx = hitTestMaskPoint(mask, point, 12);
-      if (maskIdx !== -1) {
-        setMaskSelection(maskIdx);
-        dragUndoCapturedRef.current = false;
-        setDragInfo({ kind: "mask", maskIndex: maskIdx });
+      // Hanger holes
+      const hangerHit = hitTestHanger(hanger, point);
+      if (hangerHit) {
+        setMaskSelection(null);
         setSelectedSegmentId(null);
         setSelectedConnectorId(null);
         setLabelEditor(null);
+        dragUndoCapturedRef.current = false;
+        setDragInfo({ kind: "hanger", hangerPoint: hangerHit });
         return;
       }
-      // Mask edge insert
-      const maskSegIdx = hitTestMaskSegment(mask, point, 10);
-      if (maskSegIdx !== -1) {
-        pushUndoSnapshot();
-        const updated = insertPointIntoSegment(mask, maskSegIdx, point);
-        dispatch({ type: "SET_MASK", payload: updated });
-        setMaskSelection(maskSegIdx + 1);
-        setDragInfo({ kind: "mask", maskIndex: maskSegIdx + 1 });
+
+      // QR engraving handle
+      if (hitTestQrEngraving(qrEngraving, point)) {
+        setMaskSelection(null);
         setSelectedSegmentId(null);
         setSelectedConnectorId(null);
         setLabelEditor(null);
+        dragUndoCapturedRef.current = false;
+        setDragInfo({ kind: "qr" });
         return;
       }
 
+      // Mask point?
+      for (const mask of masks) {
+        for (let ring = 0; ring < maskRingCount(mask); ring += 1) {
+          const maskIdx = hitTestMaskPoint(mask, point, 12, ring);
+          if (maskIdx !== -1) {
+            setMaskSelection({ maskId: mask.id, ring, pointIndex: maskIdx });
+            dragUndoCapturedRef.current = false;
+            setDragInfo({
+              kind: "mask",
+              maskId: mask.id,
+              maskRing: ring,
+              maskPointIndex: maskIdx,
+            });
+            setSelectedSegmentId(null);
+            setSelectedConnectorId(null);
+            setLabelEditor(null);
+            return;
+          }
+        }
+      }
+      // Mask edge insert
+      for (const mask of masks) {
+        for (let ring = 0; ring < maskRingCount(mask); ring += 1) {
+          const maskSegIdx = hitTestMaskSegment(mask, point, 10, ring);
+          if (maskSegIdx !== -1) {
+            pushUndoSnapshot();
+            const updated = insertPointIntoSegment(
+              mask,
+              maskSegIdx,
+              point,
+              ring
+            );
+            dispatch({ type: "SET_MASK", payload: updated });
+            setMaskSelection({
+              maskId: mask.id,
+              ring,
+              pointIndex: maskSegIdx + 1,
+            });
+            setDragInfo({
+              kind: "mask",
+              maskId: mask.id,
+              maskRing: ring,
+              maskPointIndex: maskSegIdx + 1,
+            });
+            setSelectedSegmentId(null);
+            setSelectedConnectorId(null);
+            setLabelEditor(null);
+            return;
+          }
+        }
+      }
+
       // Clear mask selection if clicking elsewhere.
       setMaskSelection(null);
 
@@ -697,7 +1451,17 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
           lastClick.id === segment.id &&
           now - lastClick.timestamp < 350
         ) {
-          setLabelEditor({ id: segment.id, value: segment.text ?? "" });
+          setLabelEditor({
+            id: segment.id,
+            value: segment.text ?? "",
+            style: {
+              fontFamily: segment.fontFamily,
+              fontSize: segment.fontSize,
+              align: segment.align,
+              offset: segment.offset,
+              bold: segment.bold,
+            },
+          });
           setLabelAnchor({ u: point.x / width, v: point.y / height });
           setLastClick(null);
         } else {
@@ -744,9 +1508,11 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         // If we're mid-label edit, ignore canvas clicks so we don't create new elements by accident.
         return;
       }
+      const ownerIndex = findMaskAtPoint(masks, point);
+      const owner = masks[ownerIndex === -1 ? 0 : ownerIndex] ?? null;
       if (isRightClick) {
         pushUndoSnapshot();
-        const conn = createConnectorAtPoint(mask, point, pxLength);
+        const conn = createConnectorAtPoint(owner, point, pxLength);
         if (conn) {
           setConnectors([...connectors, conn]);
           setSelectedConnectorId(conn.id);
@@ -756,7 +1522,7 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         }
       } else {
         pushUndoSnapshot();
-        const seg = createDefaultSegmentAtPoint(mask, point);
+        const seg = createDefaultSegmentAtPoint(owner, point);
         if (seg) {
           setSegments([...segments, seg]);
           setSelectedSegmentId(seg.id);
@@ -770,8 +1536,10 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       lastClick,
       connectors,
       dispatch,
-      mask,
+      hanger,
+      masks,
       pxLength,
+      qrEngraving,
       segments,
       setConnectors,
       setSegments,
@@ -794,13 +1562,12 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
           y: pointer.y - dragInfo.startPointer.y,
         };
         ensureDragUndoSnapshot();
-        const nextMask = {
-          ...mask,
-          points: dragInfo.snapshot.maskPoints.map((pt) => ({
+        const nextMasks = dragInfo.snapshot.masks.map((mask) =>
+          mapMaskPoints(mask, (pt) => ({
             x: pt.x + delta.x,
             y: pt.y + delta.y,
-          })),
-        };
+          }))
+        );
         const nextSegments = dragInfo.snapshot.segments.map((seg) => ({
           ...seg,
           start: { x: seg.start.x + delta.x, y: seg.start.y + delta.y },
@@ -811,20 +1578,48 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
           start: { x: conn.start.x + delta.x, y: conn.start.y + delta.y },
           end: { x: conn.end.x + delta.x, y: conn.end.y + delta.y },
         }));
-        dispatch({ type: "SET_MASK", payload: nextMask });
+        dispatch({ type: "SET_MASKS", payload: nextMasks });
         setSegments(nextSegments);
         setConnectors(nextConnectors);
+        if (dragInfo.snapshot.hanger) {
+          setHanger(
+            mapHangerPoints(dragInfo.snapshot.hanger, (pt) => ({
+              x: pt.x + delta.x,
+              y: pt.y + delta.y,
+            }))
+          );
+        }
+        if (dragInfo.snapshot.qrEngraving) {
+          const { point } = dragInfo.snapshot.qrEngraving;
+          setQrEngraving({
+            ...dragInfo.snapshot.qrEngraving,
+            point: { x: point.x + delta.x, y: point.y + delta.y },
+          });
+        }
+        return;
+      }
+      if (dragInfo.kind === "hanger" && dragInfo.hangerPoint && hanger) {
+        ensureDragUndoSnapshot();
+        setHanger({ ...hanger, [dragInfo.hangerPoint]: pointer });
+        return;
+      }
+      if (dragInfo.kind === "qr" && qrEngraving) {
+        ensureDragUndoSnapshot();
+        setQrEngraving({ ...qrEngraving, point: pointer });
         return;
       }
-      if (dragInfo.kind === "mask" && dragInfo.maskIndex !== undefined) {
-        const idx = dragInfo.maskIndex;
+      if (dragInfo.kind === "mask" && dragInfo.maskPointIndex !== undefined) {
+        const idx = dragInfo.maskPointIndex;
+        const ring = dragInfo.maskRing ?? 0;
+        const mask = masks.find((item) => item.id === dragInfo.maskId);
+        if (!mask) return;
         ensureDragUndoSnapshot();
-        const nextPoints = mask.points.map((pt, i) =>
+        const nextPoints = getMaskRing(mask, ring).map((pt, i) =>
           i === idx ? pointer : pt
         );
         dispatch({
           type: "SET_MASK",
-          payload: { ...mask, points: nextPoints },
+          payload: setMaskRing(mask, ring, nextPoints),
         });
         return;
       }
@@ -839,7 +1634,7 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
             dragInfo.origin,
             dragInfo.endpoint,
             pointer,
-            mask
+            maskFor(dragInfo.origin)
           );
           if (updated) {
             ensureDragUndoSnapshot();
@@ -854,11 +1649,15 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
             x: pointer.x - dragInfo.startPointer.x,
             y: pointer.y - dragInfo.startPointer.y,
           };
-          const moved = moveSegment(dragInfo.origin, delta, mask);
+          const moved = moveSegment(
+            dragInfo.origin,
+            delta,
+            maskFor(dragInfo.origin)
+          );
           if (moved) {
             ensureDragUndoSnapshot();
             const next = segments.slice();
-            next[dragInfo.segmentIndex] = moved;
+            next[dragInfo.segmentIndex] = reassignMask(moved);
             setSegments(next);
           }
         }
@@ -875,8 +1674,8 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
             dragInfo.origin,
             dragInfo.endpoint,
             pointer,
-            mask,
-            pxLength
+            maskFor(dragInfo.origin),
+            connectorPxLength(dragInfo.origin)
           );
           if (updated) {
             ensureDragUndoSnapshot();
@@ -891,11 +1690,15 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
             x: pointer.x - dragInfo.startPointer.x,
             y: pointer.y - dragInfo.startPointer.y,
           };
-          const moved = moveConnector(dragInfo.origin, delta, mask);
+          const moved = moveConnector(
+            dragInfo.origin,
+            delta,
+            maskFor(dragInfo.origin)
+          );
           if (moved) {
             ensureDragUndoSnapshot();
             const next = connectors.slice();
-            next[dragInfo.segmentIndex] = moved;
+            next[dragInfo.segmentIndex] = reassignMask(moved);
             setConnectors(next);
           }
         }
@@ -903,13 +1706,19 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
     },
     [
       connectors,
+      connectorPxLength,
       dragInfo,
       dispatch,
       ensureDragUndoSnapshot,
-      mask,
-      pxLength,
+      hanger,
+      maskFor,
+      masks,
+      qrEngraving,
+      reassignMask,
       segments,
       setConnectors,
+      setHanger,
+      setQrEngraving,
       setSegments,
     ]
   );
@@ -923,7 +1732,7 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         x: pt.x * scaleFactor,
         y: pt.y * scaleFactor,
       });
-      const nextMask = { ...mask, points: mask.points.map(scalePoint) };
+      const nextMasks = masks.map((mask) => mapMaskPoints(mask, scalePoint));
       const nextSegments = segments.map((seg) => ({
         ...seg,
         start: scalePoint(seg.start),
@@ -934,13 +1743,13 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         start: scalePoint(conn.start),
         end: scalePoint(conn.end),
       }));
-      dispatch({ type: "SET_MASK", payload: nextMask });
+      dispatch({ type: "SET_MASKS", payload: nextMasks });
       setSegments(nextSegments);
       const normalizedConnectors = nextConnectors.map((conn) => {
         const dx = conn.end.x - conn.start.x;
         const dy = conn.end.y - conn.start.y;
         const len = Math.hypot(dx, dy) || 1;
-        const factor = pxLength / len;
+        const factor = connectorPxLength(conn) / len;
         return {
           ...conn,
           end: {
@@ -950,14 +1759,25 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         };
       });
       setConnectors(normalizedConnectors);
+      if (hanger) setHanger(mapHangerPoints(hanger, scalePoint));
+      if (qrEngraving) {
+        setQrEngraving({
+          ...qrEngraving,
+          point: scalePoint(qrEngraving.point),
+        });
+      }
     },
     [
       connectors,
+      connectorPxLength,
       dispatch,
-      mask,
-      pxLength,
+      hanger,
+      masks,
+      qrEngraving,
       segments,
       setConnectors,
+      setHanger,
+      setQrEngraving,
       setSegments,
       pushUndoSnapshot,
     ]
@@ -974,11 +1794,24 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       pushUndoSnapshot();
       if (maskSelection !== null) {
         event.preventDefault();
-        const updated = deleteMaskPoint(mask, maskSelection);
+        const mask = masks.find((item) => item.id === maskSelection.maskId);
+        if (!mask) return;
+        const updated = deleteMaskPoint(
+          mask,
+          maskSelection.pointIndex,
+          maskSelection.ring
+        );
         if (updated !== mask) {
           dispatch({ type: "SET_MASK", payload: updated });
+          const remaining = getMaskRing(updated, maskSelection.ring);
+          // Deleting the last points of a hole removes the whole ring.
           setMaskSelection((prev) =>
-            prev === null ? null : Math.min(prev, updated.points.length - 1)
+            prev === null || maskRingCount(updated) < maskRingCount(mask)
+              ? null
+              : {
+                  ...prev,
+                  pointIndex: Math.min(prev.pointIndex, remaining.length - 1),
+                }
           );
         }
         return;
@@ -1005,7 +1838,7 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
       dispatch,
       handleRedo,
       handleUndo,
-      mask,
+      masks,
       maskSelection,
       selectedConnectorId,
       selectedSegmentId,
@@ -1045,18 +1878,31 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
     }
     pushUndoSnapshot();
     const next = segments.slice();
-    next[index] = { ...next[index], text: labelEditor.value };
+    next[index] = {
+      ...next[index],
+      ...labelEditor.style,
+      text: labelEditor.value,
+    };
     setSegments(next);
     setLabelEditor(null);
     setLabelAnchor(null);
   }, [labelEditor, segments, setSegments, pushUndoSnapshot]);
 
+  const warningCount = validationIssues.filter(
+    (issue) => issue.severity === "warning"
+  ).length;
+
   return (
-    <div className="relative">
+    <div
+      className="relative"
+      onDragOver={handleDragOver}
+      onDrop={(event) => void handleDrop(event)}
+    >
       <CanvasPane
         width={width}
         height={height}
         className={className}
+        style={style}
         fitContainer
         onDraw={drawPane}
         onPointerDown={handlePointerDown}
@@ -1080,6 +1926,39 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         {panelOpen ? (
           <div className="pointer-events-auto w-64 rounded-2xl border border-cyan-300/30 bg-[rgba(4,12,28,0.95)] p-4 text-xs text-[var(--ink)] shadow-2xl backdrop-blur">
             <div className="mt-3 space-y-3">
+              <div className="flex flex-col gap-2">
+                <span className="flex items-center justify-between text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Outlines
+                  <span>{masks.length}</span>
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleAddOutline}
+                    className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10"
+                  >
+                    Add
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRemoveOutline}
+                    disabled={!maskSelection || masks.length <= 1}
+                    title="Select a point on the outline to remove"
+                    className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleAddHole}
+                    disabled={!maskSelection}
+                    title="Select a point on the outline to cut a hole into"
+                    className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    Hole
+                  </button>
+                </div>
+              </div>
               <label className="flex flex-col gap-1">
                 <span className="flex items-center justify-between text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
                   Gap
@@ -1158,20 +2037,216 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
                   className="rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
                 />
               </label>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Pipeline
+                </span>
+                <div className="flex items-center gap-1">
+                  {(["raster", "vector"] as const).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => {
+                        if (option === pipeline) return;
+                        pushUndoSnapshot();
+                        updateDistanceConfig({ pipeline: option });
+                      }}
+                      className={`rounded-full border px-3 py-1 text-[11px] font-semibold uppercase tracking-wide transition ${
+                        option === pipeline
+                          ? "border-cyan-200/70 bg-cyan-500/20 text-cyan-50"
+                          : "border-cyan-300/40 bg-white/5 text-cyan-100/70 hover:border-cyan-200/70 hover:bg-cyan-500/10"
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Connectors
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleAutoConnect()}
+                  disabled={autoConnecting || !piecePolygons.length}
+                  title="Replace connectors with the layout that hangs most level; editing connectors while it runs cancels it"
+                  className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  {autoConnecting ? "Connecting…" : "Auto-connect"}
+                </button>
+              </div>
+              {autoConnectNotice ? (
+                <span className="text-[11px] text-rose-100">
+                  {autoConnectNotice}
+                </span>
+              ) : null}
+              <div className="flex flex-col gap-2">
+                <span className="flex items-center justify-between text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Hanger
+                  <button
+                    type="button"
+                    onClick={handleToggleHanger}
+                    disabled={!hanger && !masks.length}
+                    title="Hang the ornament from a ribbon through a hanger hole"
+                    className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    {hanger ? "Remove" : "Add"}
+                  </button>
+                </span>
+                {hanger ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={5}
+                      step={5}
+                      value={hanger.ribbonLength}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (!(value > 0)) return;
+                        pushUndoSnapshot();
+                        setHanger({ ...hanger, ribbonLength: value });
+                      }}
+                      title="Ribbon length"
+                      className="w-20 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                    />
+                    <span className="text-cyan-100/70">mm</span>
+                    <label className="ml-auto flex items-center gap-1 text-cyan-100/80">
+                      <input
+                        type="checkbox"
+                        className="accent-emerald-300"
+                        checked={Boolean(hanger.secondPoint)}
+                        onChange={(event) => {
+                          pushUndoSnapshot();
+                          setHanger(
+                            withSecondPoint(hanger, event.target.checked)
+                          );
+                        }}
+                      />
+                      Two-point
+                    </label>
+                  </div>
+                ) : null}
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="flex items-center justify-between text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  QR Code
+                  <button
+                    type="button"
+                    onClick={handleToggleQrEngraving}
+                    disabled={!qrEngraving && !piecePolygons.length}
+                    title="Engrave a QR code of the share link into a piece; drag its centre to move it"
+                    className="rounded-full border border-cyan-300/40 bg-white/5 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/70 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    {qrEngraving ? "Remove" : "Engrave"}
+                  </button>
+                </span>
+                {qrEngraving ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={5}
+                      step={1}
+                      value={qrEngraving.size}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (!(value > 0)) return;
+                        pushUndoSnapshot();
+                        setQrEngraving({ ...qrEngraving, size: value });
+                      }}
+                      title="QR code size"
+                      className="w-20 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                    />
+                    <span className="text-cyan-100/70">mm</span>
+                  </div>
+                ) : null}
+                {qrEngraving && qrTooLong ? (
+                  <span className="text-[11px] text-rose-100">
+                    The share link is too long for a QR code, so none is
+                    engraved
+                  </span>
+                ) : null}
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Material
+                </span>
+                <select
+                  value={material.name}
+                  onChange={(event) => {
+                    const profile = MATERIALS.find(
+                      (item) => item.name === event.target.value
+                    );
+                    if (!profile) return;
+                    pushUndoSnapshot();
+                    dispatch({ type: "SET_MATERIAL", payload: profile });
+                  }}
+                  className="rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                >
+                  {MATERIALS.some(
+                    (item) => item.name === material.name
+                  ) ? null : (
+                    <option value={material.name}>{material.name}</option>
+                  )}
+                  {MATERIALS.map((item) => (
+                    <option key={item.name} value={item.name}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+                {MATERIAL_FIELDS.map(({ key, label, unit, step }) => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span className="w-20 text-cyan-100/70">{label}</span>
+                    <input
+                      type="number"
+                      min={step}
+                      step={step}
+                      value={material[key]}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (!(value > 0)) return;
+                        pushUndoSnapshot();
+                        dispatch({
+                          type: "SET_MATERIAL",
+                          payload: {
+                            ...material,
+                            name: CUSTOM_MATERIAL_NAME,
+                            [key]: value,
+                          },
+                        });
+                      }}
+                      className="w-20 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                    />
+                    <span className="text-cyan-100/70">{unit}</span>
+                  </label>
+                ))}
+                <span
+                  className="text-cyan-100/70"
+                  title="Distance between the holes a taut ring joins, through the stock"
+                >
+                  Connectors {connectorLength.toFixed(1)} mm apart
+                </span>
+                {holeDiameter <= minHoleDiameterFor(material) ? (
+                  <span className="text-rose-100">
+                    Holes under {minHoleDiameterFor(material).toFixed(1)} mm
+                    bind these rings in this stock
+                  </span>
+                ) : null}
+              </div>
               <label className="flex flex-col gap-2">
                 <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
-                  Connector Length
+                  Hole Diameter
                 </span>
                 <div className="flex items-center gap-2">
                   <input
                     type="number"
-                    min={2}
-                    step={0.5}
-                    value={connectorLength}
+                    min={0.5}
+                    step={0.1}
+                    value={holeDiameter}
                     onChange={(event) => {
                       pushUndoSnapshot();
                       dispatch({
-                        type: "SET_CONNECTOR_LENGTH",
+                        type: "SET_HOLE_DIAMETER",
                         payload: Number(event.target.value),
                       });
                     }}
@@ -1182,45 +2257,160 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
               </label>
               <label className="flex flex-col gap-2">
                 <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
-                  Hole Diameter
+                  Kerf
                 </span>
                 <div className="flex items-center gap-2">
                   <input
                     type="number"
-                    min={0.5}
-                    step={0.1}
-                    value={holeDiameter}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={kerf}
                     onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!(value >= 0)) return;
+                      pushUndoSnapshot();
+                      dispatch({ type: "SET_KERF", payload: value });
+                    }}
+                    title="Width of material the laser burns away; the export moves every cut half of it off the pieces"
+                    className="w-24 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                  />
+                  <span className="text-cyan-100/70">mm</span>
+                </div>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Canvas Size
+                </span>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={20}
+                    step={10}
+                    value={canvasWidth}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!(value > 0)) return;
                       pushUndoSnapshot();
                       dispatch({
-                        type: "SET_HOLE_DIAMETER",
-                        payload: Number(event.target.value),
+                        type: "SET_CANVAS",
+                        payload: { canvasWidth: value },
                       });
                     }}
-                    className="w-24 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                    className="w-20 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                  />
+                  <span className="text-cyan-100/70">×</span>
+                  <input
+                    type="number"
+                    min={20}
+                    step={10}
+                    value={canvasHeight}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!(value > 0)) return;
+                      pushUndoSnapshot();
+                      dispatch({
+                        type: "SET_CANVAS",
+                        payload: { canvasHeight: value },
+                      });
+                    }}
+                    className="w-20 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
                   />
                   <span className="text-cyan-100/70">mm</span>
                 </div>
               </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-[11px] uppercase tracking-[0.3em] text-cyan-100/70">
+                  Resolution
+                </span>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={MIN_RESOLUTION}
+                    max={MAX_RESOLUTION}
+                    step={1}
+                    value={resolution}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!(value > 0)) return;
+                      pushUndoSnapshot();
+                      dispatch({
+                        type: "SET_CANVAS",
+                        payload: { resolution: value },
+                      });
+                    }}
+                    className="w-24 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none transition focus:border-cyan-200/70"
+                  />
+                  <span className="text-cyan-100/70">px/mm</span>
+                </div>
+              </label>
             </div>
           </div>
         ) : null}
       </div>
+      {warningCount ? (
+        <div className="pointer-events-none absolute left-4 top-4 z-10">
+          <div
+            className="pointer-events-auto rounded-full border border-rose-300/40 bg-[rgba(40,8,20,0.85)] px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.3em] text-rose-100 shadow-lg shadow-rose-500/15"
+            title={validationIssues.map((issue) => issue.message).join("\n")}
+          >
+            {warningCount} {warningCount === 1 ? "warning" : "warnings"}
+          </div>
+        </div>
+      ) : null}
       <div className="pointer-events-none absolute bottom-4 right-4 z-10">
         {backgroundImage ? (
-          <button
-            type="button"
-            className="pointer-events-auto inline-flex items-center gap-2 rounded-full border border-cyan-300/35 bg-[rgba(4,12,28,0.9)] px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.3em] text-cyan-50 shadow-lg shadow-cyan-500/15 transition hover:border-cyan-200/70 hover:bg-[rgba(12,32,64,0.95)]"
-            onClick={() => {
-              if (backgroundUrlRef.current) {
-                URL.revokeObjectURL(backgroundUrlRef.current);
-                backgroundUrlRef.current = null;
-              }
-              setBackgroundImage(null);
-            }}
-          >
-            Remove background
-          </button>
+          <div className="flex items-center gap-2">
+            <div className="pointer-events-auto flex items-center gap-3 rounded-full border border-cyan-300/35 bg-[rgba(4,12,28,0.9)] px-3 py-1.5 text-[11px] uppercase tracking-[0.2em] text-cyan-100/80 shadow-lg shadow-cyan-500/15">
+              <button
+                type="button"
+                className="font-semibold tracking-[0.3em] text-cyan-50 transition hover:text-white"
+                onClick={handleAutoTrace}
+                title="Replace the selected outline with the largest shape in the background"
+              >
+                Auto-trace
+              </button>
+              <input
+                type="range"
+                min={1}
+                max={254}
+                step={1}
+                value={autoTrace.threshold}
+                onChange={(event) =>
+                  setAutoTrace({
+                    ...autoTrace,
+                    threshold: Number(event.target.value),
+                  })
+                }
+                title={`Threshold ${autoTrace.threshold}`}
+                className="w-24 accent-cyan-200"
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  className="accent-cyan-200"
+                  checked={autoTrace.invert}
+                  onChange={(event) =>
+                    setAutoTrace({ ...autoTrace, invert: event.target.checked })
+                  }
+                />
+                Invert
+              </label>
+            </div>
+            <button
+              type="button"
+              className="pointer-events-auto inline-flex items-center gap-2 rounded-full border border-cyan-300/35 bg-[rgba(4,12,28,0.9)] px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.3em] text-cyan-50 shadow-lg shadow-cyan-500/15 transition hover:border-cyan-200/70 hover:bg-[rgba(12,32,64,0.95)]"
+              onClick={() => {
+                if (backgroundUrlRef.current) {
+                  URL.revokeObjectURL(backgroundUrlRef.current);
+                  backgroundUrlRef.current = null;
+                }
+                setBackgroundImage(null);
+              }}
+            >
+              Remove background
+            </button>
+          </div>
         ) : (
           <div className="rounded-full px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.3em] text-cyan-100/70 ">
             Paste image with CTRL+V to set background
@@ -1228,20 +2418,18 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
         )}
       </div>
       {labelEditor && editorPosition ? (
-        <input
-          autoFocus
-          className="absolute rounded border border-cyan-300/35 bg-[rgba(4,12,28,0.95)] px-2 py-1 text-sm text-[var(--ink)] shadow-lg shadow-cyan-500/20 outline-none focus:border-cyan-200/70"
+        <div
+          className="absolute z-20 flex w-64 flex-col gap-2 rounded border border-cyan-300/35 bg-[rgba(4,12,28,0.95)] p-2 text-[11px] text-cyan-100/80 shadow-lg shadow-cyan-500/20"
           style={{
             top: `${(editorPosition.y / height) * 100}%`,
             left: `${(editorPosition.x / width) * 100}%`,
-            width: 120,
-            transform: "translate(calc(-50% + 10px), calc(-120% + 20px))",
+            transform: "translate(calc(-50% + 10px), calc(-100% - 10px))",
           }}
-          value={labelEditor.value}
-          onChange={(event) =>
-            setLabelEditor({ ...labelEditor, value: event.target.value })
-          }
-          onBlur={() => {
+          onBlur={(event) => {
+            // Moving between the popup's own controls keeps it open.
+            if (event.currentTarget.contains(event.relatedTarget as Node)) {
+              return;
+            }
             handleLabelCommit();
             setLabelAnchor(null);
           }}
@@ -1255,7 +2443,116 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
               setLabelAnchor(null);
             }
           }}
-        />
+        >
+          <input
+            autoFocus
+            className="rounded border border-cyan-300/35 bg-transparent px-2 py-1 text-sm text-[var(--ink)] outline-none focus:border-cyan-200/70"
+            value={labelEditor.value}
+            onChange={(event) =>
+              setLabelEditor({ ...labelEditor, value: event.target.value })
+            }
+          />
+          <div className="flex items-center gap-2">
+            <select
+              className="min-w-0 flex-1 rounded border border-cyan-300/35 bg-[rgba(4,12,28,0.95)] px-1 py-0.5 text-cyan-50"
+              value={labelStyle(labelEditor.style).fontFamily}
+              onChange={(event) =>
+                setLabelEditor({
+                  ...labelEditor,
+                  style: {
+                    ...labelEditor.style,
+                    fontFamily: event.target.value as LabelFontFamily,
+                  },
+                })
+              }
+            >
+              {LABEL_FONT_FAMILIES.map((family) => (
+                <option key={family} value={family}>
+                  {family}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1" title="Font size">
+              <input
+                type="number"
+                min={0.5}
+                step={0.1}
+                className="w-14 rounded border border-cyan-300/35 bg-transparent px-1 py-0.5 text-cyan-50"
+                value={Number(
+                  labelStyle(labelEditor.style).fontSize.toFixed(2)
+                )}
+                onChange={(event) => {
+                  const fontSize = Number(event.target.value);
+                  if (fontSize > 0) {
+                    setLabelEditor({
+                      ...labelEditor,
+                      style: { ...labelEditor.style, fontSize },
+                    });
+                  }
+                }}
+              />
+              mm
+            </label>
+            <label className="flex items-center gap-1 font-bold">
+              <input
+                type="checkbox"
+                className="accent-cyan-300"
+                checked={labelStyle(labelEditor.style).bold}
+                onChange={(event) =>
+                  setLabelEditor({
+                    ...labelEditor,
+                    style: { ...labelEditor.style, bold: event.target.checked },
+                  })
+                }
+              />
+              B
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="min-w-0 flex-1 rounded border border-cyan-300/35 bg-[rgba(4,12,28,0.95)] px-1 py-0.5 text-cyan-50"
+              value={labelStyle(labelEditor.style).align}
+              title="Where the text sits along the line; fit stretches it from end to end"
+              onChange={(event) =>
+                setLabelEditor({
+                  ...labelEditor,
+                  style: {
+                    ...labelEditor.style,
+                    align: event.target.value as LabelAlign,
+                  },
+                })
+              }
+            >
+              {LABEL_ALIGNS.map((align) => (
+                <option key={align} value={align}>
+                  {align}
+                </option>
+              ))}
+            </select>
+            <label
+              className="flex items-center gap-1"
+              title="Distance of the text from the line; negative moves it to the other side"
+            >
+              Offset
+              <input
+                type="number"
+                step={0.1}
+                className="w-14 rounded border border-cyan-300/35 bg-transparent px-1 py-0.5 text-cyan-50"
+                value={labelStyle(labelEditor.style).offset}
+                onChange={(event) => {
+                  const offset = Number(event.target.value);
+                  if (Number.isFinite(offset)) {
+                    setLabelEditor({
+                      ...labelEditor,
+                      style: { ...labelEditor.style, offset },
+                    });
+                  }
+                }}
+              />
+              mm
+            </label>
+          </div>
+        </div>
       ) : null}
       {selectedConnector ? (
         <div className="pointer-events-none absolute bottom-4 left-4 z-10">
@@ -1285,6 +2582,90 @@ export function EditorPane({ width, height, className }: EditorPaneProps) {
                 Compression
               </span>
             </label>
+            <label
+              className="flex items-center gap-1 text-[10px] tracking-[0.15em] text-cyan-100/80"
+              title="Distance between the hole centres; empty follows the ring"
+            >
+              Length
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                className="w-14 rounded border border-cyan-300/35 bg-transparent px-1 py-0.5 text-cyan-50"
+                value={selectedConnector.length ?? ""}
+                placeholder={connectorDefaults?.length.toFixed(1)}
+                onChange={(event) => {
+                  if (event.target.value === "") {
+                    setConnectorSize("length");
+                    return;
+                  }
+                  const value = Number(event.target.value);
+                  if (Number.isFinite(value) && value > 0) {
+                    setConnectorSize("length", value);
+                  }
+                }}
+              />
+              <span className="normal-case tracking-normal">mm</span>
+            </label>
+            <label
+              className="flex items-center gap-1 text-[10px] tracking-[0.15em] text-cyan-100/80"
+              title="Diameter of this connector's holes; empty follows the setting"
+            >
+              Hole
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                className="w-14 rounded border border-cyan-300/35 bg-transparent px-1 py-0.5 text-cyan-50"
+                value={selectedConnector.holeDiameter ?? ""}
+                placeholder={connectorDefaults?.holeDiameter.toFixed(1)}
+                onChange={(event) => {
+                  if (event.target.value === "") {
+                    setConnectorSize("holeDiameter");
+                    return;
+                  }
+                  const value = Number(event.target.value);
+                  if (Number.isFinite(value) && value > 0) {
+                    setConnectorSize("holeDiameter", value);
+                  }
+                }}
+              />
+              <span className="normal-case tracking-normal">mm</span>
+            </label>
+            <label
+              className="flex items-center gap-1 text-[10px] tracking-[0.15em] text-cyan-100/80"
+              title="Hang the ornament from this connector's end outside the pieces"
+            >
+              <input
+                type="checkbox"
+                className="accent-emerald-300"
+                checked={Boolean(selectedConnector.anchor)}
+                onChange={(event) => setConnectorAnchor(event.target.checked)}
+              />
+              <span className="normal-case text-[11px] tracking-[0.05em]">
+                Anchor
+              </span>
+            </label>
+            <label
+              className="flex items-center gap-1 text-[10px] tracking-[0.15em] text-cyan-100/80"
+              title="Jump ring joining the holes; the length and hole size follow from it"
+            >
+              Ring
+              <select
+                className="rounded border border-cyan-300/35 bg-[rgba(4,12,28,0.95)] px-1 py-0.5 normal-case tracking-normal text-cyan-50"
+                value={selectedConnector.ring ?? ""}
+                onChange={(event) =>
+                  setConnectorRing(event.target.value || undefined)
+                }
+              >
+                <option value="">Material's</option>
+                {RING_CATALOG.map((ring) => (
+                  <option key={ring.id} value={ring.id}>
+                    {ring.name}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
         </div>
       ) : null}
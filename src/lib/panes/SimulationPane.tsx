@@ -1,14 +1,35 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  type CSSProperties,
+} from "react";
 import Matter from "matter-js";
 
 import { useTreeDanglerState } from "../state/store";
-import { createSimulationWorld } from "../logic/simulation";
+import {
+  connectorLoad,
+  createSimulationWorld,
+  modeFromLoad,
+  SETTLE_ENERGY_THRESHOLD,
+  SETTLE_QUIET_STEPS,
+  specificKineticEnergy,
+  type SimulationWorld,
+} from "../logic/simulation";
 import { hitTestConnectorEndpoint } from "../logic/connectors";
+import { hangerPivot } from "../logic/hanger";
+import type { ConnectorMode, Point } from "../types";
+import { EXTERNAL_UNDO_EVENT } from "./EditorPane";
+
+// Smoothing factor for the per-connector load shown while the ornament swings.
+const LOAD_SMOOTHING = 0.1;
 
 interface SimulationPaneProps {
   width: number;
   height: number;
   className?: string;
+  style?: CSSProperties;
   resetToken: number;
   onResetRequest?: () => void;
 }
@@ -17,16 +38,29 @@ export function SimulationPane({
   width,
   height,
   className,
+  style,
   resetToken,
   onResetRequest,
 }: SimulationPaneProps) {
   const {
-    state: { piecePolygons, connectors, holeDiameter },
+    state: { piecePolygons, connectors, hanger, holeDiameter, material },
+    dispatch,
   } = useTreeDanglerState();
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const engineRef = useRef<Matter.Engine | null>(null);
   const attachmentsRef = useRef<Record<string, Matter.Body | null>>({});
+  const pieceBodiesRef = useRef<Matter.Body[]>([]);
+  const linksRef = useRef<SimulationWorld["links"]>([]);
+  const pivotRef = useRef<Point | null>(null);
+  const loadsRef = useRef<Map<string, number>>(new Map());
+  const quietStepsRef = useRef(0);
+  const settledRef = useRef(false);
+  const [settled, setSettled] = useState(false);
+  const [detectedModes, setDetectedModes] = useState<Record<
+    string,
+    ConnectorMode
+  > | null>(null);
   const runningRef = useRef<number | undefined>(undefined);
   const pausedRef = useRef(false);
   const [hasError, setHasError] = useState(false);
@@ -137,11 +171,21 @@ export function SimulationPane({
         piecePolygons,
         connectors,
         holeDiameter,
+        material,
         width,
-        height
+        height,
+        hanger
       );
       engineRef.current = world.engine;
+      pivotRef.current = hanger ? hangerPivot(hanger) : null;
       attachmentsRef.current = world.attachments;
+      pieceBodiesRef.current = world.pieces.map((piece) => piece.body);
+      linksRef.current = world.links;
+      loadsRef.current = new Map();
+      quietStepsRef.current = 0;
+      settledRef.current = false;
+      setSettled(false);
+      setDetectedModes(null);
       return () => {
         world.destroy();
       };
@@ -151,7 +195,16 @@ export function SimulationPane({
       engineRef.current = null;
       return undefined;
     }
-  }, [connectors, piecePolygons, width, height, resetToken]);
+  }, [
+    connectors,
+    hanger,
+    piecePolygons,
+    holeDiameter,
+    material,
+    width,
+    height,
+    resetToken,
+  ]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -169,6 +222,31 @@ export function SimulationPane({
         try {
           if (!pausedRef.current) {
             Matter.Engine.update(engine, 1000 / 60);
+            const energy = specificKineticEnergy(pieceBodiesRef.current);
+            quietStepsRef.current =
+              energy < SETTLE_ENERGY_THRESHOLD ? quietStepsRef.current + 1 : 0;
+            linksRef.current.forEach((link) => {
+              const previous = loadsRef.current.get(link.id);
+              const load = connectorLoad(link);
+              loadsRef.current.set(
+                link.id,
+                previous === undefined
+                  ? load
+                  : previous + (load - previous) * LOAD_SMOOTHING
+              );
+            });
+            const isSettled = quietStepsRef.current >= SETTLE_QUIET_STEPS;
+            if (isSettled !== settledRef.current) {
+              settledRef.current = isSettled;
+              setSettled(isSettled);
+              if (isSettled) {
+                const modes: Record<string, ConnectorMode> = {};
+                loadsRef.current.forEach((load, id) => {
+                  modes[id] = modeFromLoad(load);
+                });
+                setDetectedModes(modes);
+              }
+            }
           }
           ctx.strokeStyle = "#DCEBFF";
           ctx.lineWidth = 1.5;
@@ -227,6 +305,30 @@ export function SimulationPane({
             }
           });
 
+          // Label each ring with the load it is carrying.
+          ctx.font = '10px "JetBrains Mono", monospace';
+          ctx.textAlign = "center";
+          ctx.textBaseline = "middle";
+          linksRef.current.forEach((link) => {
+            const { bodyA, bodyB } = link.constraint;
+            if (!bodyA || !bodyB) return;
+            const mode = modeFromLoad(loadsRef.current.get(link.id) ?? 0);
+            ctx.fillStyle = mode === "compression" ? "#FFB86B" : "#4DE2FF";
+            ctx.fillText(
+              mode === "compression" ? "C" : "T",
+              (bodyA.position.x + bodyB.position.x) / 2 + 8,
+              (bodyA.position.y + bodyB.position.y) / 2
+            );
+          });
+
+          // The hanger's ribbon is tied off here.
+          if (pivotRef.current) {
+            ctx.beginPath();
+            ctx.arc(pivotRef.current.x, pivotRef.current.y, 4, 0, Math.PI * 2);
+            ctx.fillStyle = "#34d399";
+            ctx.fill();
+          }
+
           // Draw draggable fixed endpoints
           Object.entries(attachmentsRef.current).forEach(([, body]) => {
             if (!body) return;
@@ -254,6 +356,26 @@ export function SimulationPane({
     };
   }, [width, height, hasError]);
 
+  const modesChanged =
+    detectedModes !== null &&
+    connectors.some(
+      (connector) =>
+        connector.id in detectedModes &&
+        detectedModes[connector.id] !== (connector.mode ?? "tension")
+    );
+  const handleApplyModes = () => {
+    if (!detectedModes) return;
+    window.dispatchEvent(new Event(EXTERNAL_UNDO_EVENT));
+    dispatch({
+      type: "SET_CONNECTORS",
+      payload: connectors.map((connector) =>
+        connector.id in detectedModes
+          ? { ...connector, mode: detectedModes[connector.id] }
+          : connector
+      ),
+    });
+  };
+
   if (hasError) {
     return (
       <div
@@ -269,14 +391,34 @@ export function SimulationPane({
   }
 
   return (
-    <canvas
-      ref={canvasRef}
-      className={className}
-      onPointerDown={handlePointerDown}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-      onPointerLeave={handlePointerUp}
-    />
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        className={className}
+        style={style}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      {settled ? (
+        <div className="pointer-events-none absolute bottom-4 right-4 flex items-center gap-2">
+          {modesChanged ? (
+            <button
+              type="button"
+              onClick={handleApplyModes}
+              title="Set each connector to the mode measured in the simulation"
+              className="pointer-events-auto rounded-full border border-cyan-300/40 bg-[rgba(8,26,54,0.85)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.3em] text-cyan-50 shadow-lg shadow-cyan-500/15 transition hover:border-cyan-200/70 hover:bg-[rgba(18,48,88,0.95)]"
+            >
+              Apply modes
+            </button>
+          ) : null}
+          <div className="rounded-full border border-emerald-300/40 bg-[rgba(4,28,24,0.85)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.3em] text-emerald-100 shadow-lg shadow-emerald-500/15">
+            Settled
+          </div>
+        </div>
+      ) : null}
+    </div>
   );
 }
 
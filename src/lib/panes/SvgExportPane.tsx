@@ -1,6 +1,16 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 
+import { EXPORT_LAYER_LABELS } from "../logic/exportLayers";
 import { useTreeDanglerState } from "../state/store";
+import type {
+  CutLayout,
+  ExportLayer,
+  ExportLayerKind,
+  LaserOperation,
+} from "../types";
+
+const LAYER_KINDS = Object.keys(EXPORT_LAYER_LABELS) as ExportLayerKind[];
+const OPERATIONS: LaserOperation[] = ["cut", "score", "engrave"];
 
 interface SvgExportPaneProps {
   className?: string;
@@ -12,29 +22,151 @@ export function SvgExportPane({
   showDownload = true,
 }: SvgExportPaneProps) {
   const {
-    state: { svgString },
+    state: {
+      svgString,
+      dxfString,
+      validationIssues,
+      exportLayers,
+      cutLayout,
+      nestedExport,
+    },
+    dispatch,
   } = useTreeDanglerState();
+  const [sheetIndex, setSheetIndex] = useState(0);
+
+  const nested = cutLayout.view === "nested";
+  const sheets = nestedExport?.sheets ?? [];
+  const sheet = Math.min(sheetIndex, Math.max(sheets.length - 1, 0));
+  const shownSvg = nested ? sheets[sheet] : svgString;
+
+  const updateCutLayout = (patch: Partial<CutLayout>) =>
+    dispatch({ type: "SET_CUT_LAYOUT", payload: { ...cutLayout, ...patch } });
+
+  const updateLayer = (kind: ExportLayerKind, patch: Partial<ExportLayer>) =>
+    dispatch({
+      type: "SET_EXPORT_LAYERS",
+      payload: {
+        ...exportLayers,
+        [kind]: { ...exportLayers[kind], ...patch },
+      },
+    });
 
   const displaySvg = useMemo(() => {
-    if (!svgString) return undefined;
-    return svgString
+    if (!shownSvg) return undefined;
+    return shownSvg
       .replace(/width="[^"]*"/, 'width="100%"')
       .replace(/height="[^"]*"/, 'height="100%"');
-  }, [svgString]);
+  }, [shownSvg]);
 
-  const handleDownload = () => {
-    if (!svgString) return;
-    const blob = new Blob([svgString], { type: "image/svg+xml" });
+  const download = (content: string, type: string, name: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = "tree-dangler.svg";
+    link.download = name;
     link.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownload = () => {
+    if (!shownSvg) return;
+    download(
+      shownSvg,
+      "image/svg+xml",
+      nested ? `tree-dangler-sheet-${sheet + 1}.svg` : "tree-dangler.svg"
+    );
+  };
+
+  const handleDownloadDxf = () => {
+    if (!dxfString) return;
+    download(dxfString, "application/dxf", "tree-dangler.dxf");
+  };
+
   return (
     <div className={className}>
+      <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-[var(--ink-muted)]">
+        <div className="flex overflow-hidden rounded-full border border-cyan-300/35">
+          {(["assembled", "nested"] as const).map((view) => (
+            <button
+              key={view}
+              type="button"
+              onClick={() => updateCutLayout({ view })}
+              className={`px-3 py-1 font-semibold uppercase tracking-wide transition ${
+                cutLayout.view === view
+                  ? "bg-cyan-500/20 text-cyan-50"
+                  : "hover:bg-cyan-500/10"
+              }`}
+            >
+              {view}
+            </button>
+          ))}
+        </div>
+        {nested && sheets.length > 1 ? (
+          <select
+            value={sheet}
+            onChange={(event) => setSheetIndex(Number(event.target.value))}
+            className="rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none"
+          >
+            {sheets.map((_, index) => (
+              <option key={index} value={index}>
+                Sheet {index + 1} of {sheets.length}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+      {nested ? (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-xs text-[var(--ink-muted)]">
+          <span>Sheet</span>
+          {(["sheetWidth", "sheetHeight"] as const).map((key) => (
+            <input
+              key={key}
+              type="number"
+              min={10}
+              step={1}
+              value={cutLayout[key]}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (value > 0) updateCutLayout({ [key]: value });
+              }}
+              title={key === "sheetWidth" ? "Sheet width" : "Sheet height"}
+              className="w-16 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none"
+            />
+          ))}
+          <span>mm, spacing</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={cutLayout.spacing}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (value >= 0) updateCutLayout({ spacing: value });
+            }}
+            title="Minimum distance between pieces and from the sheet edge"
+            className="w-14 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none"
+          />
+          <span>mm</span>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              className="accent-cyan-200"
+              checked={cutLayout.rotate}
+              onChange={(event) =>
+                updateCutLayout({ rotate: event.target.checked })
+              }
+            />
+            Rotate pieces
+          </label>
+        </div>
+      ) : null}
+      {nested && nestedExport?.unplaced ? (
+        <p className="mb-3 text-xs text-rose-100">
+          {nestedExport.unplaced === 1
+            ? "1 piece is larger than the sheet and was left out."
+            : `${nestedExport.unplaced} pieces are larger than the sheet and were left out.`}
+        </p>
+      ) : null}
       <div className="w-full max-w-[600px] aspect-[3/4] [&>svg]:h-full [&>svg]:w-full">
         {displaySvg ? (
           <div
@@ -49,15 +181,105 @@ export function SvgExportPane({
           </div>
         )}
       </div>
+      {validationIssues.length ? (
+        <ul className="mt-4 space-y-1 text-xs text-rose-100">
+          {validationIssues.map((issue, index) => (
+            <li
+              key={`${issue.kind}-${index}`}
+              className="flex items-start gap-2"
+            >
+              <span
+                className={`mt-[5px] h-1.5 w-1.5 shrink-0 rounded-full ${
+                  issue.severity === "info" ? "bg-sky-300" : "bg-rose-400"
+                }`}
+              />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <details className="mt-4 text-xs text-[var(--ink-muted)]">
+        <summary className="cursor-pointer select-none font-semibold uppercase tracking-wide">
+          Layers
+        </summary>
+        <div className="mt-2 flex flex-col gap-2">
+          {LAYER_KINDS.map((kind) => {
+            const layer = exportLayers[kind];
+            return (
+              <div key={kind} className="flex items-center gap-2">
+                <label className="flex w-40 items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="accent-cyan-200"
+                    checked={layer.enabled}
+                    onChange={(event) =>
+                      updateLayer(kind, { enabled: event.target.checked })
+                    }
+                  />
+                  {EXPORT_LAYER_LABELS[kind]}
+                </label>
+                <input
+                  type="color"
+                  value={layer.color}
+                  onChange={(event) =>
+                    updateLayer(kind, { color: event.target.value })
+                  }
+                  title="Color"
+                  className="h-6 w-8 cursor-pointer rounded border border-cyan-300/35 bg-transparent"
+                />
+                <select
+                  value={layer.operation}
+                  onChange={(event) =>
+                    updateLayer(kind, {
+                      operation: event.target.value as LaserOperation,
+                    })
+                  }
+                  className="rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none"
+                >
+                  {OPERATIONS.map((operation) => (
+                    <option key={operation} value={operation}>
+                      {operation}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0.01}
+                  step={0.01}
+                  value={layer.strokeWidth}
+                  disabled={layer.operation === "engrave"}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (value > 0) updateLayer(kind, { strokeWidth: value });
+                  }}
+                  title="Stroke width"
+                  className="w-16 rounded-lg border border-cyan-300/35 bg-[rgba(7,20,44,0.85)] px-2 py-1 text-[var(--ink)] outline-none disabled:opacity-50"
+                />
+                <span>mm</span>
+              </div>
+            );
+          })}
+        </div>
+      </details>
       {showDownload ? (
         <div className="mt-4 flex gap-3">
           <button
             type="button"
             onClick={handleDownload}
             className="rounded-full border border-transparent bg-gradient-to-r from-cyan-300 via-cyan-200 to-indigo-300 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-900 shadow-lg shadow-cyan-500/30 transition hover:shadow-indigo-500/30 disabled:from-cyan-300/50 disabled:via-cyan-200/50 disabled:to-indigo-300/50 disabled:text-slate-700 disabled:cursor-not-allowed"
-            disabled={!svgString}
+            disabled={!shownSvg}
+          >
+            {nested && sheets.length > 1
+              ? `Download Sheet ${sheet + 1}`
+              : "Download SVG"}
+          </button>
+          <button
+            type="button"
+            onClick={handleDownloadDxf}
+            className="rounded-full border border-cyan-300/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-cyan-50 transition hover:border-cyan-200/80 hover:bg-cyan-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={!dxfString}
           >
-            Download SVG
+            Download DXF
           </button>
         </div>
       ) : null}
@@ -3,74 +3,183 @@ import {
   useContext,
   useReducer,
   useEffect,
+  useMemo,
   useRef,
+  useState,
   type Dispatch,
   type ReactNode,
 } from "react";
-import { TreeDanglerState, MaskPolygon, LineSegment, Polygon } from "../types";
-import { mmToPx, resizeConnectorFromStart } from "../logic/connectors";
+import {
+  TreeDanglerState,
+  CutLayout,
+  ExportLayers,
+  Hanger,
+  MaskPolygon,
+  LineSegment,
+  Material,
+  NestedExport,
+  PiecePipeline,
+  Polygon,
+  QrEngraving,
+  ValidationIssue,
+} from "../types";
+import { resizeConnectorFromStart } from "../logic/connectors";
+import {
+  DEFAULT_CANVAS_HEIGHT_MM,
+  DEFAULT_CANVAS_WIDTH_MM,
+  DEFAULT_RESOLUTION,
+  mmToPx,
+} from "../logic/units";
+import { analyzeConnectivity } from "../logic/connectivity";
+import { DEFAULT_EXPORT_LAYERS } from "../logic/exportLayers";
+import {
+  connectorFit,
+  connectorLengthFor,
+  DEFAULT_MATERIAL,
+} from "../logic/materials";
+import { DEFAULT_CUT_LAYOUT } from "../logic/nesting";
+import type { EngravedQrCode } from "../logic/svgExport";
+import { qrCodeFits } from "../logic/qrCode";
+import { validateLayout } from "../logic/validation";
 import {
   decodeSceneFromHash,
+  DEFAULT_SCENE_SETTINGS,
   deserializeScene,
+  encodeSceneToHash,
+  shareLinkForHash,
   type NormalizedScene,
+  type SceneState,
 } from "../logic/sceneSerialization";
 
 // Action types
 type Action =
   | { type: "SET_MASK"; payload: MaskPolygon }
+  | { type: "SET_MASKS"; payload: MaskPolygon[] }
   | { type: "SET_SEGMENTS"; payload: TreeDanglerState["segments"] }
   | { type: "SET_PIECE_POLYGONS"; payload: TreeDanglerState["piecePolygons"] }
   | { type: "SET_CONNECTORS"; payload: TreeDanglerState["connectors"] }
+  | { type: "SET_HANGER"; payload: Hanger | null }
+  | { type: "SET_QR_ENGRAVING"; payload: QrEngraving | null }
+  | { type: "SET_EXPORT_LAYERS"; payload: ExportLayers }
+  | { type: "SET_CUT_LAYOUT"; payload: CutLayout }
   | {
       type: "SET_DISTANCE_CONFIG";
       payload: Partial<
-        Pick<TreeDanglerState, "gap" | "round" | "noiseAmplitude" | "noiseSeed">
+        Pick<
+          TreeDanglerState,
+          "gap" | "round" | "noiseAmplitude" | "noiseSeed" | "pipeline"
+        >
       >;
     }
-  | { type: "SET_CONNECTOR_LENGTH"; payload: number }
+  | { type: "SET_MATERIAL"; payload: Material }
   | { type: "SET_HOLE_DIAMETER"; payload: number }
-  | { type: "SET_SVG_STRING"; payload: string };
+  | { type: "SET_KERF"; payload: number }
+  | {
+      type: "SET_CANVAS";
+      payload: Partial<
+        Pick<TreeDanglerState, "canvasWidth" | "canvasHeight" | "resolution">
+      >;
+    }
+  | { type: "SET_SVG_STRING"; payload: string }
+  | { type: "SET_DXF_STRING"; payload: string }
+  | { type: "SET_NESTED_EXPORT"; payload: NestedExport | undefined }
+  | { type: "SET_VALIDATION_ISSUES"; payload: ValidationIssue[] }
+  | { type: "SET_LOAD_WARNINGS"; payload: string[] };
 
 // Initial state; populated from tree.json on mount
 const initialState: TreeDanglerState = {
-  mask: { id: "default-mask", points: [] },
+  masks: [],
   segments: [],
   piecePolygons: [],
   connectors: [],
-  gap: 1.2,
-  round: 2,
-  noiseAmplitude: 5,
-  noiseSeed: 0,
-  connectorLength: 10,
-  holeDiameter: 1.8,
+  hanger: null,
+  qrEngraving: null,
+  exportLayers: DEFAULT_EXPORT_LAYERS,
+  cutLayout: DEFAULT_CUT_LAYOUT,
+  ...DEFAULT_SCENE_SETTINGS,
+  material: DEFAULT_MATERIAL,
+  connectorLength: connectorLengthFor(
+    DEFAULT_MATERIAL,
+    DEFAULT_SCENE_SETTINGS.holeDiameter
+  ),
+  canvasWidth: DEFAULT_CANVAS_WIDTH_MM,
+  canvasHeight: DEFAULT_CANVAS_HEIGHT_MM,
+  resolution: DEFAULT_RESOLUTION,
   svgString: "",
+  dxfString: "",
+  validationIssues: [],
+  loadWarnings: [],
 };
 
+// Connectors are drawn at the length their rings hold the holes at, so they
+// follow every change to the rings or the holes.
+function withRingLength(state: TreeDanglerState): TreeDanglerState {
+  return {
+    ...state,
+    connectorLength: connectorLengthFor(state.material, state.holeDiameter),
+    connectors: state.connectors.map((segment) =>
+      resizeConnectorFromStart(
+        segment,
+        mmToPx(
+          connectorFit(segment, state.material, state.holeDiameter).length
+        ),
+        state.masks.find((mask) => mask.id === segment.maskId) ?? null
+      )
+    ),
+  };
+}
+
 // Reducer
 function reducer(state: TreeDanglerState, action: Action): TreeDanglerState {
   switch (action.type) {
-    case "SET_MASK":
-      return { ...state, mask: action.payload };
+    case "SET_MASK": {
+      // Replace the outline with the same id; unknown outlines are appended.
+      const index = state.masks.findIndex(
+        (mask) => mask.id === action.payload.id
+      );
+      if (index === -1) {
+        return { ...state, masks: [...state.masks, action.payload] };
+      }
+      const masks = state.masks.slice();
+      masks[index] = action.payload;
+      return { ...state, masks };
+    }
+    case "SET_MASKS":
+      return { ...state, masks: action.payload };
     case "SET_SEGMENTS":
       return { ...state, segments: action.payload };
     case "SET_PIECE_POLYGONS":
       return { ...state, piecePolygons: action.payload };
     case "SET_CONNECTORS":
       return { ...state, connectors: action.payload };
+    case "SET_HANGER":
+      return { ...state, hanger: action.payload };
+    case "SET_QR_ENGRAVING":
+      return { ...state, qrEngraving: action.payload };
+    case "SET_EXPORT_LAYERS":
+      return { ...state, exportLayers: action.payload };
+    case "SET_CUT_LAYOUT":
+      return { ...state, cutLayout: action.payload };
     case "SET_DISTANCE_CONFIG":
       return { ...state, ...action.payload };
     case "SET_SVG_STRING":
       return { ...state, svgString: action.payload };
-    case "SET_CONNECTOR_LENGTH":
-      return {
-        ...state,
-        connectorLength: action.payload,
-        connectors: state.connectors.map((segment) =>
-          resizeConnectorFromStart(segment, mmToPx(action.payload), state.mask)
-        ),
-      };
+    case "SET_DXF_STRING":
+      return { ...state, dxfString: action.payload };
+    case "SET_NESTED_EXPORT":
+      return { ...state, nestedExport: action.payload };
+    case "SET_MATERIAL":
+      return withRingLength({ ...state, material: action.payload });
     case "SET_HOLE_DIAMETER":
-      return { ...state, holeDiameter: action.payload };
+      return withRingLength({ ...state, holeDiameter: action.payload });
+    case "SET_KERF":
+      return { ...state, kerf: action.payload };
+    case "SET_CANVAS":
+      return { ...state, ...action.payload };
+    case "SET_VALIDATION_ISSUES":
+      return { ...state, validationIssues: action.payload };
+    case "SET_LOAD_WARNINGS":
+      return { ...state, loadWarnings: action.payload };
     default:
       return state;
   }
@@ -80,6 +189,8 @@ function reducer(state: TreeDanglerState, action: Action): TreeDanglerState {
 type TreeDanglerContextValue = {
   state: TreeDanglerState;
   dispatch: Dispatch<Action>;
+  // The scene's share link no longer fits in a QR code.
+  qrTooLong: boolean;
 };
 
 const TreeDanglerContext = createContext<TreeDanglerContextValue | undefined>(
@@ -92,11 +203,12 @@ function applyScene(
   opts?: { suppressHistory?: boolean }
 ) {
   dispatch({
-    type: "SET_MASK",
-    payload: scene.mask,
+    type: "SET_MASKS",
+    payload: scene.masks,
   });
   dispatch({ type: "SET_SEGMENTS", payload: scene.segments });
   dispatch({ type: "SET_CONNECTORS", payload: scene.connectors });
+  dispatch({ type: "SET_HANGER", payload: scene.hanger });
   dispatch({
     type: "SET_DISTANCE_CONFIG",
     payload: {
@@ -104,16 +216,23 @@ function applyScene(
       round: scene.noise.round,
       noiseAmplitude: scene.noise.noiseAmplitude,
       noiseSeed: scene.noise.noiseSeed,
+      pipeline: scene.noise.pipeline,
     },
   });
-  dispatch({
-    type: "SET_CONNECTOR_LENGTH",
-    payload: scene.noise.connectorLength,
-  });
+  dispatch({ type: "SET_MATERIAL", payload: scene.material });
   dispatch({
     type: "SET_HOLE_DIAMETER",
     payload: scene.noise.holeDiameter,
   });
+  dispatch({ type: "SET_KERF", payload: scene.noise.kerf });
+  dispatch({
+    type: "SET_CANVAS",
+    payload: {
+      canvasWidth: scene.canvas.width,
+      canvasHeight: scene.canvas.height,
+      resolution: scene.canvas.resolution,
+    },
+  });
   if (!opts?.suppressHistory && typeof window !== "undefined") {
     window.dispatchEvent(new Event("tree-dangler-push-undo"));
   }
@@ -130,9 +249,11 @@ export function TreeDanglerProvider({ children }: { children: ReactNode }) {
       if (typeof window !== "undefined") {
         const hashValue = window.location.hash.slice(1);
         if (hashValue) {
-          const decoded = await decodeSceneFromHash(hashValue);
+          const warnings: string[] = [];
+          const decoded = await decodeSceneFromHash(hashValue, warnings);
           if (decoded && !cancelled) {
             applyScene(decoded, dispatch, { suppressHistory: true });
+            dispatch({ type: "SET_LOAD_WARNINGS", payload: warnings });
             if (window.history?.replaceState) {
               window.history.replaceState(
                 null,
@@ -149,14 +270,10 @@ export function TreeDanglerProvider({ children }: { children: ReactNode }) {
       try {
         const resp = await fetch("tree.json");
         const raw = await resp.json();
-        const normalized = deserializeScene({
-          mask: raw.mask,
-          segments: raw.segments,
-          connectors: raw.connectors,
-          noise: raw.noise ?? {},
-        });
-        if (normalized && !cancelled) {
-          applyScene(normalized, dispatch, { suppressHistory: true });
+        const { scene, warnings } = deserializeScene(raw);
+        if (scene && !cancelled) {
+          applyScene(scene, dispatch, { suppressHistory: true });
+          dispatch({ type: "SET_LOAD_WARNINGS", payload: warnings });
         }
       } catch (err) {
         console.error("Failed to load default scene", err);
@@ -174,9 +291,11 @@ export function TreeDanglerProvider({ children }: { children: ReactNode }) {
       const run = async () => {
         const hashValue = window.location.hash.slice(1);
         if (!hashValue) return;
-        const decoded = await decodeSceneFromHash(hashValue);
+        const warnings: string[] = [];
+        const decoded = await decodeSceneFromHash(hashValue, warnings);
         if (decoded) {
           applyScene(decoded, dispatch);
+          dispatch({ type: "SET_LOAD_WARNINGS", payload: warnings });
           if (window.history?.replaceState) {
             window.history.replaceState(
               null,
@@ -196,24 +315,118 @@ export function TreeDanglerProvider({ children }: { children: ReactNode }) {
     };
   }, [dispatch]);
 
+  // The engraved QR code carries the link to the scene as it is now. Ids are
+  // left out to keep the code small enough to engrave. Only what goes into
+  // the link re-encodes it; the link is kept current even without an
+  // engraving so the UI can tell when it is too long for a QR code.
+  const [qrText, setQrText] = useState("");
+  const {
+    masks,
+    segments,
+    connectors,
+    hanger,
+    gap,
+    round,
+    noiseAmplitude,
+    noiseSeed,
+    holeDiameter,
+    kerf,
+    pipeline,
+    material,
+    canvasWidth,
+    canvasHeight,
+    resolution,
+  } = state;
+  useEffect(() => {
+    if (typeof window === "undefined") return undefined;
+    let cancelled = false;
+    const scene: SceneState = {
+      masks,
+      segments,
+      connectors,
+      hanger,
+      gap,
+      round,
+      noiseAmplitude,
+      noiseSeed,
+      holeDiameter,
+      kerf,
+      pipeline,
+      material,
+      canvasWidth,
+      canvasHeight,
+      resolution,
+    };
+    void encodeSceneToHash(scene, { ids: false }).then((hash) => {
+      if (!cancelled) setQrText(shareLinkForHash(hash));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    masks,
+    segments,
+    connectors,
+    hanger,
+    gap,
+    round,
+    noiseAmplitude,
+    noiseSeed,
+    holeDiameter,
+    kerf,
+    pipeline,
+    material,
+    canvasWidth,
+    canvasHeight,
+    resolution,
+  ]);
+  const qrTooLong = useMemo(() => !!qrText && !qrCodeFits(qrText), [qrText]);
+  const qr = useMemo(
+    () =>
+      state.qrEngraving && qrText && !qrTooLong
+        ? { ...state.qrEngraving, text: qrText }
+        : null,
+    [state.qrEngraving, qrText, qrTooLong]
+  );
+
   const gapPx = mmToPx(state.gap);
   const roundPx = mmToPx(state.round);
   useWorker(
-    state.mask,
+    state.masks,
     state.segments,
     state.connectors,
+    state.hanger,
+    qr,
+    state.exportLayers,
+    state.cutLayout,
     {
       shrinkThreshold: roundPx + gapPx / 2,
       roundThreshold: roundPx,
       noiseAmplitude: state.noiseAmplitude,
       noiseSeed: state.noiseSeed,
       holeDiameter: state.holeDiameter,
+      material: state.material,
+      kerf: state.kerf,
+      pipeline: state.pipeline,
+      canvasWidth: state.canvasWidth,
+      canvasHeight: state.canvasHeight,
+      resolution: state.resolution,
     },
     dispatch
   );
+  useValidation(
+    state.piecePolygons,
+    state.connectors,
+    state.hanger,
+    state.holeDiameter,
+    state.material,
+    mmToPx(state.canvasWidth),
+    mmToPx(state.canvasHeight),
+    dispatch
+  );
 
   return (
-    <TreeDanglerContext.Provider value={{ state, dispatch }}>
+    <TreeDanglerContext.Provider value={{ state, dispatch, qrTooLong }}>
       {children}
     </TreeDanglerContext.Provider>
   );
@@ -234,6 +447,8 @@ interface VoronoiWorkerMessage {
   id: number;
   piecePolygons?: Polygon[];
   svgString?: string;
+  dxfString?: string;
+  nestedExport?: NestedExport;
   error?: string;
 }
 
@@ -243,12 +458,22 @@ interface DistanceProcessingConfig {
   noiseAmplitude: number;
   noiseSeed: number;
   holeDiameter: number;
+  material: Material;
+  kerf: number;
+  pipeline: PiecePipeline;
+  canvasWidth: number;
+  canvasHeight: number;
+  resolution: number;
 }
 
 function useWorker(
-  mask: MaskPolygon,
+  masks: MaskPolygon[],
   segments: LineSegment[],
   connectors: LineSegment[],
+  hanger: Hanger | null,
+  qr: EngravedQrCode | null,
+  layers: ExportLayers,
+  cutLayout: CutLayout,
   config: DistanceProcessingConfig,
   dispatch: Dispatch<Action>
 ) {
@@ -264,7 +489,8 @@ function useWorker(
     );
     workerRef.current = worker;
     worker.onmessage = (event: MessageEvent<VoronoiWorkerMessage>) => {
-      const { id, piecePolygons, svgString, error } = event.data;
+      const { id, piecePolygons, svgString, dxfString, nestedExport, error } =
+        event.data;
       if (error) {
         console.error("Voronoi worker error:", error);
         return;
@@ -275,6 +501,8 @@ function useWorker(
       latestCompletedRef.current = id;
       dispatch({ type: "SET_PIECE_POLYGONS", payload: piecePolygons ?? [] });
       dispatch({ type: "SET_SVG_STRING", payload: svgString ?? "" });
+      dispatch({ type: "SET_DXF_STRING", payload: dxfString ?? "" });
+      dispatch({ type: "SET_NESTED_EXPORT", payload: nestedExport });
     };
     return () => {
       workerRef.current = null;
@@ -288,19 +516,131 @@ function useWorker(
     requestIdRef.current = id;
     workerRef.current.postMessage({
       id,
-      mask,
+      masks,
       segments,
       connectors,
+      hanger,
+      qr,
+      exportLayers: layers,
+      cutLayout,
       config,
     });
   }, [
-    mask,
+    masks,
     segments,
     connectors,
+    hanger,
+    qr,
+    layers,
+    cutLayout,
     config.shrinkThreshold,
     config.roundThreshold,
     config.noiseAmplitude,
     config.noiseSeed,
     config.holeDiameter,
+    config.material,
+    config.kerf,
+    config.pipeline,
+    config.canvasWidth,
+    config.canvasHeight,
+    config.resolution,
+  ]);
+}
+
+interface ValidationWorkerMessage {
+  id: number;
+  issues?: ValidationIssue[];
+  error?: string;
+}
+
+// Layout checks are cheap and run on every change; the settled-pose overlap
+// check needs a full simulation, so it runs in a worker and joins in later.
+function useValidation(
+  piecePolygons: Polygon[],
+  connectors: LineSegment[],
+  hanger: Hanger | null,
+  holeDiameter: number,
+  material: Material,
+  width: number,
+  height: number,
+  dispatch: Dispatch<Action>
+) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const [settledIssues, setSettledIssues] = useState<ValidationIssue[]>([]);
+
+  const layoutIssues = useMemo(
+    () => [
+      ...validateLayout(
+        piecePolygons,
+        connectors,
+        holeDiameter,
+        material,
+        hanger
+      ),
+      ...analyzeConnectivity(
+        piecePolygons,
+        connectors,
+        holeDiameter,
+        material,
+        hanger
+      ),
+    ],
+    [piecePolygons, connectors, hanger, holeDiameter, material]
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const worker = new Worker(
+      new URL("../workers/validationWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<ValidationWorkerMessage>) => {
+      const { id, issues, error } = event.data;
+      if (error) {
+        console.error("Validation worker error:", error);
+        return;
+      }
+      // Results for an older layout would mark the wrong spots.
+      if (id !== requestIdRef.current) return;
+      setSettledIssues(issues ?? []);
+    };
+    return () => {
+      workerRef.current = null;
+      worker.terminate();
+    };
+  }, []);
+
+  useEffect(() => {
+    setSettledIssues([]);
+    if (!workerRef.current) return;
+    const id = requestIdRef.current + 1;
+    requestIdRef.current = id;
+    workerRef.current.postMessage({
+      id,
+      piecePolygons,
+      connectors,
+      hanger,
+      holeDiameter,
+      material,
+      width,
+      height,
+    });
+  }, [
+    piecePolygons,
+    connectors,
+    hanger,
+    holeDiameter,
+    material,
+    width,
+    height,
   ]);
+
+  useEffect(() => {
+    dispatch({
+      type: "SET_VALIDATION_ISSUES",
+      payload: [...layoutIssues, ...settledIssues],
+    });
+  }, [layoutIssues, settledIssues, dispatch]);
 }
@@ -3,35 +3,188 @@ export interface Point {
   y: number;
 }
 
+export type ConnectorMode = "tension" | "compression";
+
+export type LabelFontFamily = "Lato" | "Source Code Pro";
+
+// Where a label sits along its segment; `fit` scales it to span the segment.
+export type LabelAlign = "start" | "middle" | "end" | "fit";
+
 export interface LineSegment {
   id: string;
   start: Point;
   end: Point;
   text?: string;
-  mode?: "tension" | "compression";
+  // Segments only: label styling, with defaults from labelText when absent.
+  // `fontSize` is the em size in mm; `offset` moves the label off the line,
+  // in mm, towards the left of the direction from start to end.
+  fontFamily?: LabelFontFamily;
+  fontSize?: number;
+  align?: LabelAlign;
+  offset?: number;
+  bold?: boolean;
+  mode?: ConnectorMode;
+  // Connectors only: id of the RING_CATALOG ring joining the holes; without
+  // one the material's rings are used.
+  ring?: string;
+  // Connectors only: length and hole diameter in mm that replace the ones
+  // derived from the ring and the settings.
+  length?: number;
+  holeDiameter?: number;
+  // Connectors only: the end outside every piece is pinned to the world and
+  // the ornament hangs from it.
+  anchor?: boolean;
+  maskId?: string;
+  // Free-form JSON kept with the element through save and load.
+  meta?: Record<string, unknown>;
 }
 
 export interface Polygon {
   id: string;
   points: Point[];
+  // Inner rings (cutouts) of the polygon, each a closed ring like `points`.
+  holes?: Point[][];
   meta?: Record<string, unknown>;
 }
 
 export type MaskPolygon = Polygon;
 
+// A ribbon loop or hook the ornament hangs from. It is threaded through a
+// hanger hole in a piece (or two, for hanging level) and tied off at a fixed
+// pivot `ribbonLength` mm away.
+export interface Hanger {
+  point: Point;
+  secondPoint?: Point;
+  ribbonLength: number;
+}
+
+// A QR code of the share link, engraved centred on `point` into the piece
+// under it. `size` is the code's edge length in mm, quiet zone excluded.
+export interface QrEngraving {
+  point: Point;
+  size: number;
+}
+
+// What the laser does with a layer: cut through, mark a line, or fill.
+export type LaserOperation = "cut" | "score" | "engrave";
+
+// The kinds of content the exporters put on separate layers. Labels include
+// the QR code; the outline and registration marks are optional extras.
+export type ExportLayerKind =
+  | "pieces"
+  | "holes"
+  | "labels"
+  | "outline"
+  | "registration";
+
+export interface ExportLayer {
+  enabled: boolean;
+  color: string;
+  // Line width in mm for cut and score layers; engraved layers are filled.
+  strokeWidth: number;
+  operation: LaserOperation;
+}
+
+export type ExportLayers = Record<ExportLayerKind, ExportLayer>;
+
+// The SVG export either keeps pieces where they hang in the ornament or
+// packs them onto sheets of material; sizes are in mm.
+export interface CutLayout {
+  view: "assembled" | "nested";
+  sheetWidth: number;
+  sheetHeight: number;
+  // Minimum distance between pieces and from the sheet edge.
+  spacing: number;
+  rotate: boolean;
+}
+
+// One SVG per sheet; `unplaced` counts pieces larger than a sheet.
+export interface NestedExport {
+  sheets: string[];
+  unplaced: number;
+}
+
+// The stock pieces are cut from and the jump rings joining them, in mm and
+// g/cm³; see logic/materials.
+export interface Material {
+  name: string;
+  thickness: number;
+  density: number;
+  // The ring's wire gauge, as a diameter.
+  wireDiameter: number;
+  ringInnerDiameter: number;
+}
+
+// A jump ring size: wire gauge as a diameter, and inside diameter, in mm.
+export interface JumpRing {
+  id: string;
+  name: string;
+  wireDiameter: number;
+  innerDiameter: number;
+}
+
+// How piece outlines are derived from the Voronoi cells: through a raster
+// distance field and tracing, or directly with polygon offsetting.
+export type PiecePipeline = "raster" | "vector";
+
+// Problems found in the cut layout, the connector graph or the settled
+// ornament; see logic/validation and logic/connectivity.
+export type ValidationIssueKind =
+  | "hole-edge"
+  | "hole-overlap"
+  | "piece-overlap"
+  | "loose-end"
+  | "idle-anchor"
+  | "same-piece"
+  | "cycle"
+  | "unreachable-piece";
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  // Info marks a deliberate-looking choice worth a second look, such as a
+  // loop of connectors bracing pieces together.
+  severity: "warning" | "info";
+  message: string;
+  // Where to mark the problem, in scene coordinates.
+  point: Point;
+  connectorIds?: string[];
+  pieceIds?: string[];
+}
+
 export interface TreeDanglerState {
-  mask: MaskPolygon;
+  masks: MaskPolygon[];
   segments: LineSegment[];
   piecePolygons: Polygon[];
   connectors: LineSegment[];
+  hanger: Hanger | null;
+  // Not saved with the scene; it is an export option.
+  qrEngraving: QrEngraving | null;
+  // Not saved with the scene either.
+  exportLayers: ExportLayers;
+  cutLayout: CutLayout;
   // UI-level config
   gap: number;
   round: number;
   noiseAmplitude: number;
   noiseSeed: number;
+  material: Material;
+  // Length of connectors with the material's rings, which new connectors
+  // get; see connectorFit.
   connectorLength: number;
   holeDiameter: number;
+  kerf: number;
+  pipeline: PiecePipeline;
+  // Physical canvas size in mm and raster pixels per mm.
+  canvasWidth: number;
+  canvasHeight: number;
+  resolution: number;
   svgString?: string;
+  dxfString?: string;
+  // Only computed in the nested view.
+  nestedExport?: NestedExport;
+  validationIssues: ValidationIssue[];
+  // What the last loaded scene had repaired or dropped; cleared on dismiss.
+  loadWarnings: string[];
 }
 
 export interface BinaryBitmap {
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, type KeyboardEvent, type PointerEvent as ReactPointerEvent } from 'react'
+import { useCallback, useEffect, useRef, type CSSProperties, type KeyboardEvent, type PointerEvent as ReactPointerEvent } from 'react'
 
 export interface PointerEventData {
   x: number
@@ -18,6 +18,7 @@ export interface CanvasPaneProps {
   width: number
   height: number
   className?: string
+  style?: CSSProperties
   tabIndex?: number
   fitContainer?: boolean
   onDraw?: (ctx: CanvasRenderingContext2D) => void
@@ -33,6 +34,7 @@ export function CanvasPane({
   width,
   height,
   className,
+  style,
   tabIndex,
   fitContainer = false,
   onDraw,
@@ -153,6 +155,7 @@ export function CanvasPane({
       width={width}
       height={height}
       className={className}
+      style={style}
       tabIndex={resolvedTabIndex}
       onPointerDown={handlePointerDown}
       onPointerMove={handlePointerMove}
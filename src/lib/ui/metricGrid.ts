@@ -1,5 +1,4 @@
-export const PX_PER_MM = 5
-export const PX_PER_CM = PX_PER_MM * 10
+import { PX_PER_CM, PX_PER_MM } from '../logic/units'
 
 export function drawMetricRulers(ctx: CanvasRenderingContext2D, width: number, height: number) {
   ctx.save()
@@ -0,0 +1,98 @@
+/// <reference lib="webworker" />
+
+import { settleSimulation } from "../logic/simulation";
+import { findSettledOverlaps } from "../logic/validation";
+import type {
+  Hanger,
+  LineSegment,
+  Material,
+  Polygon,
+  ValidationIssue,
+} from "../types";
+
+interface WorkerRequest {
+  id: number;
+  piecePolygons: Polygon[];
+  connectors: LineSegment[];
+  hanger: Hanger | null;
+  holeDiameter: number;
+  material: Material;
+  width: number;
+  height: number;
+}
+
+interface WorkerResponse {
+  id: number;
+  issues?: ValidationIssue[];
+  error?: string;
+}
+
+// Settling runs for seconds, so it uses the cheaper solver settings the
+// connector scoring uses.
+const SETTLE_CONSTRAINT_ITERATIONS = 100;
+const SETTLE_MAX_STEPS = 900;
+
+const ctx: DedicatedWorkerGlobalScope = self as DedicatedWorkerGlobalScope;
+
+// Only ever settle the latest layout; edits arriving mid-run replace each
+// other.
+let isComputing = false;
+let latestPending: WorkerRequest | null = null;
+
+ctx.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  latestPending = event.data;
+  if (!isComputing) {
+    setTimeout(runNextValidation, 0);
+  }
+});
+
+function runNextValidation() {
+  if (!latestPending || isComputing) return;
+
+  const request = latestPending;
+  latestPending = null;
+  isComputing = true;
+
+  const {
+    id,
+    piecePolygons,
+    connectors,
+    hanger,
+    holeDiameter,
+    material,
+    width,
+    height,
+  } = request;
+  try {
+    const issues =
+      piecePolygons.length && (connectors.length || hanger)
+        ? findSettledOverlaps(
+            piecePolygons,
+            settleSimulation(
+              piecePolygons,
+              connectors,
+              holeDiameter,
+              material,
+              width,
+              height,
+              {
+                maxSteps: SETTLE_MAX_STEPS,
+                constraintIterations: SETTLE_CONSTRAINT_ITERATIONS,
+                hanger,
+              }
+            )
+          )
+        : [];
+    ctx.postMessage({ id, issues } satisfies WorkerResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.postMessage({ id, error: message } satisfies WorkerResponse);
+  } finally {
+    isComputing = false;
+    if (latestPending) {
+      setTimeout(runNextValidation, 0);
+    }
+  }
+}
+
+export {};
@@ -4,28 +4,60 @@ import { makeNoise2D } from "open-simplex-noise";
 import {
   computeDistanceField,
   rasterizeVoronoiMask,
+  type VoronoiMaskLayer,
 } from "../logic/distanceField";
+import { findMaskAtPoint, groupByMask } from "../logic/mask";
 import { traceBinaryBitmap } from "../logic/tracing";
-import { generateSVG } from "../logic/svgExport";
+import { generateDXF } from "../logic/dxfExport";
+import { loadLabelFonts } from "../logic/labelFonts";
+import {
+  generateNestedSVG,
+  generateSVG,
+  type EngravedQrCode,
+} from "../logic/svgExport";
+import { computeVectorPiecePolygons } from "../logic/vectorPipeline";
+import { mmToPx, rasterSize } from "../logic/units";
 import { computeVoronoiPolygons } from "../logic/voronoi";
-import type { BinaryBitmap, LineSegment, MaskPolygon, Polygon } from "../types";
+import type {
+  BinaryBitmap,
+  CutLayout,
+  ExportLayers,
+  Hanger,
+  LineSegment,
+  MaskPolygon,
+  Material,
+  NestedExport,
+  PiecePipeline,
+  Point,
+  Polygon,
+} from "../types";
+
+type Noise2D = (x: number, y: number) => number;
 
-const DEFAULT_RASTER_WIDTH = 600;
-const DEFAULT_RASTER_HEIGHT = 800;
 let cachedNoiseSeed: number | null = null;
-let cachedNoise2D: ((x: number, y: number) => number) | null = null;
+let cachedNoise2D: Noise2D | null = null;
 
 interface WorkerRequest {
   id: number;
-  mask: MaskPolygon;
+  masks: MaskPolygon[];
   segments: LineSegment[];
   connectors: LineSegment[];
+  hanger: Hanger | null;
+  qr: EngravedQrCode | null;
+  exportLayers: ExportLayers;
+  cutLayout: CutLayout;
   config: {
     shrinkThreshold: number;
     roundThreshold: number;
     noiseAmplitude: number;
     noiseSeed: number;
     holeDiameter: number;
+    material: Material;
+    kerf: number;
+    pipeline: PiecePipeline;
+    canvasWidth: number;
+    canvasHeight: number;
+    resolution: number;
   };
   spacing?: number;
 }
@@ -34,6 +66,8 @@ interface WorkerResponse {
   id: number;
   piecePolygons?: Polygon[];
   svgString?: string;
+  dxfString?: string;
+  nestedExport?: NestedExport;
   error?: string;
 }
 
@@ -64,6 +98,122 @@ ctx.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
   scheduleNextComputation();
 });
 
+function getNoiseSampler(seed: number): Noise2D {
+  if (cachedNoiseSeed !== seed || !cachedNoise2D) {
+    cachedNoise2D = makeNoise2D(seed);
+    cachedNoiseSeed = seed;
+  }
+  return cachedNoise2D;
+}
+
+// Three octaves of simplex noise, normalised back to roughly [-1, 1].
+function combinedNoise(noise2D: Noise2D, x: number, y: number) {
+  const baseNoise = noise2D(x * 0.01, y * 0.01);
+  const secondNoise = noise2D(x * 0.02 + 100, y * 0.02 + 100);
+  const thirdNoise = noise2D(x * 0.03 + 200, y * 0.03 + 200);
+  return (baseNoise + secondNoise * 0.5 + thirdNoise * 0.25) / 1.75;
+}
+
+function computeRasterPiecePolygons(
+  layers: VoronoiMaskLayer[],
+  config: WorkerRequest["config"],
+  noise2D: Noise2D
+): Polygon[] {
+  const { scale, ...size } = rasterSize(
+    config.canvasWidth,
+    config.canvasHeight,
+    config.resolution
+  );
+  const maskBitmap = rasterizeVoronoiMask(layers, {
+    ...size,
+    strokeWidth: 2,
+    scale,
+  });
+  if (!maskBitmap) return [];
+
+  const { width, height } = maskBitmap;
+  const total = width * height;
+  // Thresholds and noise are in scene pixels; the bitmap is `scale` times finer.
+  const shrinkThreshold = config.shrinkThreshold * scale;
+  const roundThreshold = config.roundThreshold * scale;
+  const noiseAmplitude = config.noiseAmplitude * scale;
+
+  const inward = computeDistanceField(maskBitmap);
+  const shrinkMask = new Uint8Array(total);
+  for (let i = 0; i < total; i += 1) {
+    shrinkMask[i] = inward.field[i] >= shrinkThreshold ? 1 : 0;
+  }
+
+  const invertedData = new Uint8ClampedArray(total * 4);
+  for (let i = 0; i < total; i += 1) {
+    const value = shrinkMask[i] ? 0 : 255;
+    const offset = i * 4;
+    invertedData[offset] = value;
+    invertedData[offset + 1] = value;
+    invertedData[offset + 2] = value;
+    invertedData[offset + 3] = 255;
+  }
+
+  const outward = computeDistanceField({
+    width,
+    height,
+    data: invertedData,
+  });
+
+  if (noiseAmplitude > 0) {
+    for (let i = 0; i < outward.field.length; i += 1) {
+      const x = (i % width) / scale;
+      const y = Math.floor(i / width) / scale;
+      outward.field[i] = Math.max(
+        0,
+        outward.field[i] + combinedNoise(noise2D, x, y) * noiseAmplitude
+      );
+    }
+  }
+
+  const finalMask = new Uint8Array(total);
+  for (let i = 0; i < total; i += 1) {
+    if (outward.field[i] <= roundThreshold) {
+      finalMask[i] = 1;
+    }
+  }
+
+  const previewData = new Uint8ClampedArray(total * 4);
+  for (let i = 0; i < total; i += 1) {
+    const offset = i * 4;
+    if (finalMask[i]) {
+      previewData[offset] = 255;
+      previewData[offset + 1] = 255;
+      previewData[offset + 2] = 255;
+      previewData[offset + 3] = 255;
+    } else {
+      previewData[offset] = 0;
+      previewData[offset + 1] = 0;
+      previewData[offset + 2] = 0;
+      // Transparent background so tracing focuses on the foreground only.
+      previewData[offset + 3] = 0;
+    }
+  }
+
+  const previewBitmap: BinaryBitmap = {
+    width,
+    height,
+    data: previewData,
+  };
+
+  const toScene = (point: Point) => ({
+    x: point.x / scale,
+    y: point.y / scale,
+  });
+  return traceBinaryBitmap(previewBitmap).map((polygon) => ({
+    ...polygon,
+    points: polygon.points.map(toScene),
+    ...(polygon.holes
+      ? { holes: polygon.holes.map((hole) => hole.map(toScene)) }
+      : {}),
+  }));
+}
+
 function runNextComputation() {
   if (!latestPending) return;
 
@@ -71,129 +221,112 @@ function runNextComputation() {
   latestPending = null;
   isComputing = true;
 
-  const { id, mask, segments, connectors, config, spacing } = request;
+  const {
+    id,
+    masks,
+    segments,
+    connectors,
+    hanger,
+    qr,
+    exportLayers,
+    cutLayout,
+    config,
+    spacing,
+  } = request;
 
-  // We already waited 100ms before calling this via scheduleNextComputation.
-  // Use a microtask to keep the event loop responsive.
-  Promise.resolve().then(() => {
+  // Label fonts load once, on the first run; afterwards this is a microtask
+  // that keeps the event loop responsive.
+  loadLabelFonts().then((fonts) => {
     try {
-      const polygons = computeVoronoiPolygons(segments, mask, spacing);
+      const segmentsByMask = groupByMask(masks, segments);
+      const layers: VoronoiMaskLayer[] = masks
+        .map((mask) => ({
+          mask,
+          polygons: computeVoronoiPolygons(
+            segmentsByMask.get(mask.id) ?? [],
+            mask,
+            spacing
+          ),
+        }))
+        .filter((layer) => layer.polygons.length > 0);
 
-      if (!polygons.length) {
+      if (!layers.length) {
         ctx.postMessage({
           id,
           piecePolygons: [],
           svgString: "",
+          dxfString: "",
+          ...(cutLayout.view === "nested"
+            ? { nestedExport: { sheets: [], unplaced: 0 } }
+            : {}),
         } satisfies WorkerResponse);
         return;
       }
 
-      const maskBitmap = rasterizeVoronoiMask(polygons, mask, {
-        width: DEFAULT_RASTER_WIDTH,
-        height: DEFAULT_RASTER_HEIGHT,
-        strokeWidth: 2,
-      });
+      const noise2D = getNoiseSampler(config.noiseSeed);
+      const piecePolygons =
+        config.pipeline === "vector"
+          ? computeVectorPiecePolygons(layers, {
+              shrinkThreshold: config.shrinkThreshold,
+              roundThreshold: config.roundThreshold,
+              noiseAmplitude: config.noiseAmplitude,
+              noise: (x, y) => combinedNoise(noise2D, x, y),
+            })
+          : computeRasterPiecePolygons(layers, config, noise2D);
 
-      if (!maskBitmap) {
-        ctx.postMessage({
-          id,
-          piecePolygons: [],
-          svgString: "",
-        } satisfies WorkerResponse);
-        return;
-      }
-
-      const { width, height } = maskBitmap;
-      const total = width * height;
-
-      if (cachedNoiseSeed !== config.noiseSeed || !cachedNoise2D) {
-        cachedNoise2D = makeNoise2D(config.noiseSeed);
-        cachedNoiseSeed = config.noiseSeed;
-      }
-      const noise2D = cachedNoise2D;
-
-      const inward = computeDistanceField(maskBitmap);
-      const shrinkMask = new Uint8Array(total);
-      for (let i = 0; i < total; i += 1) {
-        shrinkMask[i] = inward.field[i] >= config.shrinkThreshold ? 1 : 0;
-      }
-
-      const invertedData = new Uint8ClampedArray(total * 4);
-      for (let i = 0; i < total; i += 1) {
-        const value = shrinkMask[i] ? 0 : 255;
-        const offset = i * 4;
-        invertedData[offset] = value;
-        invertedData[offset + 1] = value;
-        invertedData[offset + 2] = value;
-        invertedData[offset + 3] = 255;
-      }
-
-      const outward = computeDistanceField({
-        width,
-        height,
-        data: invertedData,
+      // The exports move every edge off the material by half the kerf, so
+      // cut pieces come out as these outlines; the simulation and checks use
+      // them as they are.
+      const tracedPolygons = piecePolygons.map((polygon) => {
+        // Pieces sit inside their outline, so any vertex identifies it.
+        const maskIndex = findMaskAtPoint(masks, polygon.points[0]);
+        if (maskIndex === -1) return polygon;
+        return {
+          ...polygon,
+          meta: { ...polygon.meta, maskId: masks[maskIndex].id },
+        };
       });
-
-      if (config.noiseAmplitude > 0 && noise2D) {
-        for (let i = 0; i < outward.field.length; i += 1) {
-          const x = i % width;
-          const y = Math.floor(i / width);
-          const baseNoise = noise2D(x * 0.01, y * 0.01);
-          const secondNoise = noise2D(x * 0.02 + 100, y * 0.02 + 100);
-          const thirdNoise = noise2D(x * 0.03 + 200, y * 0.03 + 200);
-          const combinedNoise =
-            (baseNoise + secondNoise * 0.5 + thirdNoise * 0.25) / 1.75;
-          outward.field[i] = Math.max(
-            0,
-            outward.field[i] + combinedNoise * config.noiseAmplitude
-          );
-        }
-      }
-
-      const finalMask = new Uint8Array(total);
-      for (let i = 0; i < total; i += 1) {
-        if (outward.field[i] <= config.roundThreshold) {
-          finalMask[i] = 1;
-        }
-      }
-
-      const previewData = new Uint8ClampedArray(total * 4);
-      for (let i = 0; i < total; i += 1) {
-        const offset = i * 4;
-        if (finalMask[i]) {
-          previewData[offset] = 255;
-          previewData[offset + 1] = 255;
-          previewData[offset + 2] = 255;
-          previewData[offset + 3] = 255;
-        } else {
-          previewData[offset] = 0;
-          previewData[offset + 1] = 0;
-          previewData[offset + 2] = 0;
-          // Transparent background so tracing focuses on the foreground only.
-          previewData[offset + 3] = 0;
-        }
-      }
-
-      const previewBitmap: BinaryBitmap = {
-        width,
-        height,
-        data: previewData,
-      };
-
-      const tracedPolygons = traceBinaryBitmap(previewBitmap);
-      const svgOutput = generateSVG(
+      const exportArgs = [
         tracedPolygons,
         connectors,
         segments,
-        width,
-        height,
-        config.holeDiameter
-      );
+        mmToPx(config.canvasWidth),
+        mmToPx(config.canvasHeight),
+        config.holeDiameter,
+        config.material,
+        hanger,
+        qr,
+        exportLayers,
+        masks,
+        fonts,
+        config.kerf,
+      ] as const;
+      const svgOutput = generateSVG(...exportArgs);
+      const dxfOutput = generateDXF(...exportArgs);
+      // Packing is only worth its time while the nested view is shown.
+      const nestedExport =
+        cutLayout.view === "nested"
+          ? generateNestedSVG(
+              tracedPolygons,
+              connectors,
+              segments,
+              config.holeDiameter,
+              config.material,
+              hanger,
+              qr,
+              exportLayers,
+              fonts,
+              cutLayout,
+              config.kerf
+            )
+          : undefined;
 
       ctx.postMessage({
         id,
         piecePolygons: tracedPolygons,
         svgString: svgOutput,
+        dxfString: dxfOutput,
+        ...(nestedExport ? { nestedExport } : {}),
       } satisfies WorkerResponse);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);